@@ -9,7 +9,7 @@ export default antfu({
   markdown: false,
   typescript: {
     parserOptions: {
-      tsconfigRootDir: import.meta.dir,
+      tsconfigRootDir: import.meta.dirname,
       project: "tsconfig.json",
     },
     overrides: {
@@ -96,7 +96,7 @@ export default antfu({
           "object",
           "unknown",
         ],
-        tsconfigRootDir: "tsconfig.json",
+        tsconfigRootDir: import.meta.dirname,
         newlinesBetween: "never",
         order: "asc",
         type: "natural",
@@ -0,0 +1,95 @@
+import { expect, it } from "vitest";
+import { createOchreClient } from "./utils/client.js";
+import { OchreMissingKeyError } from "./utils/errors.js";
+
+const bibliographyUuid = "3c5e7a9b-1d3f-4d5b-9e7a-0c2e4a6c8e0b";
+const sourceUuid = "4d6f8b0c-2e4a-4e6c-8f8b-1d3f5b7d9f1c";
+
+function createResponse(item: Record<string, unknown>) {
+  return {
+    ochre: {
+      uuid: bibliographyUuid,
+      uuidBelongsTo: "5e7a9c1d-3f5b-4f7d-9a9c-2e4a6c8e0a2d",
+      belongsTo: "library",
+      publicationDateTime: "2022-05-10T00:00:00Z",
+      metadata: {
+        identifier: { content: "library" },
+        publisher: { content: "library" },
+        dataset: { content: "library" },
+        language: { default: true, content: "eng" },
+        description: { content: "References" },
+      },
+      ...item,
+    },
+  };
+}
+
+it("fetchBibliography parses the fields of a bibliography", async () => {
+  const client = createOchreClient({
+    fetch: () =>
+      Promise.resolve(
+        Response.json(
+          createResponse({
+            bibliography: {
+              uuid: bibliographyUuid,
+              type: "book",
+              n: 3,
+              identification: { label: { content: "Smith 2020" } },
+              citationFormatSpan: { span: { content: "Smith 2020" } },
+              referenceFormatDiv: {
+                div: {
+                  div: { class: "reference", content: "Smith, J. 2020." },
+                  style: "",
+                  class: "",
+                },
+              },
+              sourceDocument: { uuid: sourceUuid, content: "Source" },
+            },
+          }),
+        ),
+      ),
+  });
+
+  const [error, result] = await client.fetchBibliography(bibliographyUuid);
+
+  expect(error).toBeNull();
+  expect(result?.metadata.identifier).toBe("library");
+  expect(result?.bibliography).toMatchObject({
+    uuid: bibliographyUuid,
+    variant: "bibliography",
+    type: "book",
+    number: 3,
+    identification: { label: "Smith 2020", abbreviation: "" },
+    citation: { short: "Smith 2020", long: "Smith, J. 2020." },
+    source: {
+      documentUrl: `https://ochre.lib.uchicago.edu/ochre?uuid=${sourceUuid}&load`,
+    },
+  });
+});
+
+it("fetchBibliography fails to fetch a bibliography from another item", async () => {
+  const client = createOchreClient({
+    fetch: () =>
+      Promise.resolve(
+        Response.json(
+          createResponse({
+            resource: {
+              uuid: bibliographyUuid,
+              publicationDateTime: "2022-05-10T00:00:00Z",
+              type: "image",
+              n: 1,
+              identification: { label: { content: "Scan" } },
+            },
+          }),
+        ),
+      ),
+  });
+
+  const [error, result] = await client.fetchBibliography(bibliographyUuid);
+
+  expect(result).toBeNull();
+  expect(error).toBeInstanceOf(OchreMissingKeyError);
+  expect(error instanceof OchreMissingKeyError && error.key).toBe(
+    "bibliography",
+  );
+});
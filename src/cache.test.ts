@@ -0,0 +1,164 @@
+import type { OchreCacheEntry } from "./utils/cache.js";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { expect, it } from "vitest";
+import { createFileSystemCache, createMemoryCache } from "./utils/cache.js";
+import { createOchreClient } from "./utils/client.js";
+
+const uuid = "3e7a9c1d-2b4f-4d6e-8a0c-5f1b3d7e9a2c";
+
+function createTextResponse() {
+  return {
+    ochre: {
+      uuid,
+      uuidBelongsTo: "4f8b0d2e-3c5a-4e7f-9b1d-6a2c4e8f0b3d",
+      belongsTo: "archive",
+      publicationDateTime: "2023-03-15T09:00:00Z",
+      metadata: {
+        identifier: { content: "archive" },
+        publisher: { content: "archive" },
+        dataset: { content: "archive" },
+        language: { default: true, content: "eng" },
+        description: { content: "Letters" },
+      },
+      resource: {
+        uuid,
+        publicationDateTime: "2023-03-15T09:00:00Z",
+        type: "document",
+        n: 1,
+        identification: { label: { content: "Letter" } },
+      },
+    },
+  };
+}
+
+function createEntry(cachedAt: number): OchreCacheEntry {
+  const data = createTextResponse() as unknown as OchreCacheEntry["data"];
+
+  return {
+    uuid,
+    publicationDateTime: "2023-03-15T09:00:00Z",
+    cachedAt,
+    data,
+  };
+}
+
+it("createMemoryCache evicts the least recently used entries beyond maxEntries", async () => {
+  const cache = createMemoryCache({ maxEntries: 2 });
+
+  await cache.set("first", createEntry(1));
+  await cache.set("second", createEntry(2));
+  await cache.get("first");
+  await cache.set("third", createEntry(3));
+
+  expect(await cache.get("second")).toBeNull();
+  expect(await cache.get("first")).toMatchObject({ cachedAt: 1 });
+  expect(await cache.get("third")).toMatchObject({ cachedAt: 3 });
+
+  await cache.set("first", createEntry(4));
+  await cache.set("fourth", createEntry(5));
+
+  expect(await cache.get("third")).toBeNull();
+  expect(await cache.get("first")).toMatchObject({ cachedAt: 4 });
+});
+
+it("createFileSystemCache reads back the entries it writes", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "ochre-cache-"));
+  const cache = createFileSystemCache({ directory: `${directory}/entries/` });
+
+  try {
+    await cache.set(
+      `https://ochre.lib.uchicago.edu/ochre#${uuid}`,
+      createEntry(1),
+    );
+
+    expect(
+      await cache.get(`https://ochre.lib.uchicago.edu/ochre#${uuid}`),
+    ).toEqual(createEntry(1));
+    expect(await cache.get(uuid)).toBeNull();
+
+    await cache.delete(`https://ochre.lib.uchicago.edu/ochre#${uuid}`);
+
+    expect(
+      await cache.get(`https://ochre.lib.uchicago.edu/ochre#${uuid}`),
+    ).toBeNull();
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+it("createFileSystemCache treats corrupt files as missing entries", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "ochre-cache-"));
+  const cache = createFileSystemCache({ directory });
+
+  try {
+    await writeFile(path.join(directory, `${uuid}.json`), "{ not json", "utf8");
+
+    expect(await cache.get(uuid)).toBeNull();
+
+    await cache.set(uuid, createEntry(2));
+
+    expect(await cache.get(uuid)).toMatchObject({ cachedAt: 2 });
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+it("client revalidates cached items by publication date", async () => {
+  const requests: Array<string> = [];
+  const client = createOchreClient({
+    cache: createMemoryCache(),
+    fetch: (input) => {
+      const url = input.toString();
+      requests.push(url);
+
+      return Promise.resolve(
+        url.includes("xquery=") ?
+          Response.json({
+            result: {
+              item: { uuid, publicationDateTime: "2023-03-15T09:00:00Z" },
+            },
+          })
+        : Response.json(createTextResponse()),
+      );
+    },
+  });
+
+  await client.fetchResource(uuid);
+  const [, result] = await client.fetchResource(uuid);
+
+  expect(requests).toHaveLength(2);
+  expect(requests[1]).toContain("xquery=");
+  expect(result?.resource.uuid).toBe(uuid);
+});
+
+it("client keeps the cache entries of each base URL apart", async () => {
+  const cache = createMemoryCache();
+  const requests: Array<string> = [];
+  const fetch = (input: string | URL | Request) => {
+    requests.push(input.toString());
+    return Promise.resolve(Response.json(createTextResponse()));
+  };
+
+  const production = createOchreClient({ cache, cacheTtl: 60_000, fetch });
+  const staging = createOchreClient({
+    baseUrl: "https://staging.example.org/ochre",
+    cache,
+    cacheTtl: 60_000,
+    fetch,
+  });
+
+  await production.fetchResource(uuid);
+  await staging.fetchResource(uuid);
+  await staging.fetchResource(uuid.toUpperCase());
+
+  expect(requests).toHaveLength(2);
+  expect(requests[1]).toMatch(/^https:\/\/staging\.example\.org\/ochre\?/);
+  expect(
+    await cache.get(`https://ochre.lib.uchicago.edu/ochre#${uuid}`),
+  ).not.toBeNull();
+  expect(
+    await cache.get(`https://staging.example.org/ochre#${uuid}`),
+  ).not.toBeNull();
+});
@@ -0,0 +1,449 @@
+import { expect, it } from "vitest";
+import { createOchreClient } from "./utils/client.js";
+import { withDiagnostics } from "./utils/diagnostics.js";
+import { OchreParseError, OchreValidationError } from "./utils/errors.js";
+import { resolveLocalizedString } from "./utils/string.js";
+
+const uuid = "27adf18a-21ad-442b-b186-0c7f3b8cb2d1";
+
+function createResourceResponse() {
+  return {
+    ochre: {
+      uuid,
+      uuidBelongsTo: "9ad9a6d4-0d9c-4b06-9d0b-2d6e9e5a1c7c",
+      belongsTo: "test",
+      publicationDateTime: "2025-01-01T00:00:00Z",
+      metadata: {
+        identifier: { content: "test" },
+        publisher: { content: "test" },
+        dataset: { content: "test" },
+        language: { default: true, content: "eng" },
+        description: { content: "test" },
+      },
+      resource: {
+        uuid,
+        publicationDateTime: "2025-01-01T00:00:00Z",
+        type: "document",
+        n: 1,
+        identification: { label: { content: "Test resource" } },
+        citedBibliography: {
+          reference: {
+            uuid: "5b0a1c5e-62c2-4f3e-8e51-3c4b2a4c6b9d",
+            sourceDocument: {
+              uuid: "0c6d1e0b-6f2b-4f5a-9e7d-1a2b3c4d5e6f",
+              content: "Source",
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+it("client uses the configured base URL, fetch and headers", async () => {
+  const requests: Array<{ url: string; init?: RequestInit }> = [];
+  const client = createOchreClient({
+    baseUrl: "http://localhost:8080/ochre/",
+    headers: { "x-test": "true" },
+    fetch: (input, init) => {
+      requests.push({ url: input.toString(), init });
+      return Promise.resolve(Response.json(createResourceResponse()));
+    },
+  });
+
+  const [, result] = await client.fetchResource(uuid);
+
+  expect(requests[0]?.url).toBe(
+    `http://localhost:8080/ochre?uuid=${uuid}&format=json&lang="*"`,
+  );
+  expect(requests[0]?.init?.headers).toEqual({ "x-test": "true" });
+  expect(result?.resource.identification.label).toBe("Test resource");
+  expect(result?.resource.citedBibliographies[0]?.source.documentUrl).toBe(
+    "http://localhost:8080/ochre?uuid=0c6d1e0b-6f2b-4f5a-9e7d-1a2b3c4d5e6f&load",
+  );
+});
+
+it("client retries 5xx responses with backoff", async () => {
+  let attempts = 0;
+  const client = createOchreClient({
+    retries: 2,
+    retryDelay: 0,
+    fetch: () => {
+      attempts++;
+      return Promise.resolve(
+        attempts < 3 ?
+          new Response(null, { status: 503 })
+        : Response.json(createResourceResponse()),
+      );
+    },
+  });
+
+  const [, result] = await client.fetchResource(uuid);
+
+  expect(attempts).toBe(3);
+  expect(result?.resource.uuid).toBe(uuid);
+});
+
+it("client stops when the signal is aborted", async () => {
+  const controller = new AbortController();
+  controller.abort();
+
+  const client = createOchreClient({
+    fetch: () => Promise.resolve(Response.json(createResourceResponse())),
+  });
+
+  const [error] = await client.fetchByUuid(uuid, {
+    signal: controller.signal,
+  });
+
+  expect(error?.kind).toBe("network");
+});
+
+it("client coalesces concurrent requests for the same item", async () => {
+  let requestCount = 0;
+  const client = createOchreClient({
+    concurrency: 1,
+    fetch: () => {
+      requestCount++;
+      return Promise.resolve(Response.json(createResourceResponse()));
+    },
+  });
+
+  const [[, first], [, second]] = await Promise.all([
+    client.fetchResource(uuid),
+    client.fetchResource(uuid),
+    client.fetchByUuid(uuid),
+  ]);
+
+  expect(requestCount).toBe(1);
+  expect(first?.resource.uuid).toBe(uuid);
+  expect(second?.resource.uuid).toBe(uuid);
+});
+
+it("client honours a concurrency passed to a method", async () => {
+  let active = 0;
+  let maxActive = 0;
+  const client = createOchreClient({
+    fetch: async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+
+      return Response.json({ result: [] });
+    },
+  });
+  const uuids = [
+    "7d3f2a1b-5e6c-4a8d-9b0e-1c2d3e4f5a6b",
+    "8e4a3b2c-6f7d-4b9e-8c1f-2d3e4f5a6b7c",
+    "9f5b4c3d-7a8e-4c0f-9d2a-3e4f5a6b7c8d",
+  ];
+
+  await client.fetchManyByUuid(uuids, { batchSize: 1, concurrency: 1 });
+  expect(maxActive).toBe(1);
+
+  maxActive = 0;
+  await client.fetchManyByUuid(uuids, { batchSize: 1 });
+  expect(maxActive).toBe(3);
+});
+
+it("client only shares requests made with the same settings", async () => {
+  const requests: Array<RequestInit["headers"]> = [];
+  function createClient(label: string, token: string) {
+    return createOchreClient({
+      headers: { Authorization: `Bearer ${token}` },
+      fetch: (_input, init) => {
+        requests.push(init?.headers);
+
+        const response = createResourceResponse();
+        return Promise.resolve(
+          Response.json({
+            ochre: {
+              ...response.ochre,
+              resource: {
+                ...response.ochre.resource,
+                identification: { label: { content: label } },
+              },
+            },
+          }),
+        );
+      },
+    });
+  }
+
+  const [[, first], [, second]] = await Promise.all([
+    createClient("First tenant", "first").fetchResource(uuid),
+    createClient("Second tenant", "second").fetchResource(uuid),
+  ]);
+
+  expect(requests).toEqual([
+    { Authorization: "Bearer first" },
+    { Authorization: "Bearer second" },
+  ]);
+  expect(first?.resource.identification.label).toBe("First tenant");
+  expect(second?.resource.identification.label).toBe("Second tenant");
+});
+
+it("client only aborts a shared request once every caller has aborted", async () => {
+  const signals: Array<AbortSignal | null | undefined> = [];
+  const client = createOchreClient({
+    fetch: (_input, init) => {
+      signals.push(init?.signal);
+
+      return new Promise((resolve, reject) => {
+        const timeoutId = setTimeout(() => {
+          resolve(Response.json(createResourceResponse()));
+        }, 10);
+        init?.signal?.addEventListener("abort", () => {
+          clearTimeout(timeoutId);
+          reject(new Error("Aborted"));
+        });
+      });
+    },
+  });
+
+  const controller = new AbortController();
+  const aborted = client.fetchResource(uuid, { signal: controller.signal });
+  const pending = client.fetchResource(uuid);
+  controller.abort();
+
+  const [[abortedError], [pendingError, result]] = await Promise.all([
+    aborted,
+    pending,
+  ]);
+
+  expect(signals).toHaveLength(1);
+  expect(abortedError?.kind).toBe("network");
+  expect(pendingError).toBeNull();
+  expect(result?.resource.uuid).toBe(uuid);
+  expect(signals[0]?.aborted).toBe(false);
+
+  const firstController = new AbortController();
+  const secondController = new AbortController();
+  const results = Promise.all([
+    client.fetchResource(uuid, { signal: firstController.signal }),
+    client.fetchResource(uuid, { signal: secondController.signal }),
+  ]);
+  firstController.abort();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  expect(signals[1]?.aborted).toBe(false);
+
+  secondController.abort();
+  const [[firstError], [secondError]] = await results;
+
+  expect(signals).toHaveLength(2);
+  expect(signals[1]?.aborted).toBe(true);
+  expect(firstError?.kind).toBe("network");
+  expect(secondError?.kind).toBe("network");
+});
+
+it("client reports schema violations with their JSON path in strict mode", async () => {
+  const response = createResourceResponse();
+  const client = createOchreClient({
+    fetch: () =>
+      Promise.resolve(
+        Response.json({
+          ochre: {
+            ...response.ochre,
+            resource: { ...response.ochre.resource, n: "1" },
+          },
+        }),
+      ),
+  });
+
+  const [lenientError] = await client.fetchResource(uuid);
+  const [strictError] = await client.fetchResource(uuid, { strict: true });
+
+  expect(lenientError).toBeNull();
+  expect(strictError?.kind).toBe("validation");
+  expect(
+    strictError instanceof OchreValidationError && strictError.issues,
+  ).toEqual([
+    {
+      path: ["ochre", "resource", "n"],
+      message: "Expected number, received string",
+    },
+  ]);
+});
+
+it("client fails on a broken identification outside of lenient mode", async () => {
+  const response = createResourceResponse();
+  const createClient = () =>
+    createOchreClient({
+      fetch: () =>
+        Promise.resolve(
+          Response.json({
+            ochre: {
+              ...response.ochre,
+              resource: {
+                ...response.ochre.resource,
+                identification: { label: { content: [] } },
+              },
+            },
+          }),
+        ),
+    });
+
+  const [error] = await createClient().fetchResource(uuid);
+  expect(error).toBeInstanceOf(OchreParseError);
+  expect(error instanceof OchreParseError && error.path).toEqual([
+    "identification",
+  ]);
+
+  const { data, diagnostics } = await withDiagnostics((diagnostics) =>
+    createClient().fetchResource(uuid, { diagnostics }),
+  );
+  expect(data[1]?.resource.identification).toEqual({
+    label: "",
+    abbreviation: "",
+  });
+  expect(diagnostics).toMatchObject([{ uuid, path: ["identification"] }]);
+});
+
+it("client detects the category of an item", async () => {
+  const client = createOchreClient({
+    fetch: () => Promise.resolve(Response.json(createResourceResponse())),
+  });
+
+  const [error, data] = await client.fetchItem(uuid);
+
+  expect(error).toBeNull();
+  expect(data?.item.variant).toBe("resource");
+  expect(
+    data?.item.variant === "resource" && data.item.identification.label,
+  ).toBe("Test resource");
+});
+
+it("client skips broken nodes and reports them as diagnostics", async () => {
+  const response = createResourceResponse();
+  const client = createOchreClient({
+    fetch: () =>
+      Promise.resolve(
+        Response.json({
+          ochre: {
+            ...response.ochre,
+            resource: {
+              ...response.ochre.resource,
+              notes: {
+                note: [
+                  { noteNo: 1, content: { string: "First note" } },
+                  { noteNo: 2, content: [] },
+                ],
+              },
+              links: [{ unknown: { uuid } }],
+            },
+          },
+        }),
+      ),
+  });
+
+  const [error] = await client.fetchResource(uuid);
+  const { data, diagnostics } = await withDiagnostics((diagnostics) =>
+    client.fetchResource(uuid, { diagnostics }),
+  );
+
+  expect(error?.kind).toBe("parse");
+  expect(data[1]?.resource.notes.map((note) => note.content)).toEqual([
+    "First note",
+  ]);
+  expect(data[1]?.resource.links).toEqual([]);
+  expect(
+    diagnostics.map((diagnostic) => [diagnostic.uuid, diagnostic.path]),
+  ).toEqual([
+    [uuid, ["notes", 1]],
+    [uuid, ["links", 0]],
+  ]);
+});
+
+it("client keeps every language of multilingual strings when localized", async () => {
+  const response = createResourceResponse();
+  const client = createOchreClient({
+    language: "ita",
+    localized: true,
+    fetch: () =>
+      Promise.resolve(
+        Response.json({
+          ochre: {
+            ...response.ochre,
+            resource: {
+              ...response.ochre.resource,
+              identification: {
+                label: {
+                  content: [
+                    { lang: "eng", string: "Vase" },
+                    { lang: "ita", string: "Vaso" },
+                  ],
+                },
+              },
+              description: {
+                content: [
+                  { lang: "eng", string: "A vase" },
+                  { lang: "ita", string: "Un vaso" },
+                ],
+              },
+            },
+          },
+        }),
+      ),
+  });
+
+  const [, result] = await client.fetchResource(uuid);
+  const label = result?.resource.identification.localized?.label ?? {};
+
+  expect(label).toEqual({ eng: "Vase", ita: "Vaso" });
+  expect(result?.resource.localized?.description).toEqual({
+    eng: "A vase",
+    ita: "Un vaso",
+  });
+  expect(resolveLocalizedString(label, ["fra", "ita"])).toBe("Vaso");
+  expect(resolveLocalizedString(label, "fra")).toBe("Vase");
+  expect(resolveLocalizedString({}, "eng")).toBeNull();
+});
+
+it("client falls back along the language chain", async () => {
+  const response = createResourceResponse();
+  const client = createOchreClient({
+    fetch: () =>
+      Promise.resolve(
+        Response.json({
+          ochre: {
+            ...response.ochre,
+            resource: {
+              ...response.ochre.resource,
+              document: {
+                content: [
+                  { lang: "deu", string: "Ein Dokument" },
+                  { lang: "ita", string: "Un documento" },
+                ],
+              },
+              properties: {
+                property: {
+                  label: { uuid, content: { lang: "eng", string: "Material" } },
+                  property: {
+                    label: {
+                      uuid,
+                      content: [
+                        { lang: "eng", string: "Stone" },
+                        { lang: "ita", string: "Pietra" },
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          },
+        }),
+      ),
+  });
+
+  const [, italian] = await client.fetchResource(uuid, {
+    language: ["fra", "ita"],
+  });
+  const [, english] = await client.fetchResource(uuid);
+
+  expect(italian?.resource.document?.content).toBe("Un documento");
+  expect(italian?.resource.properties[0]?.label).toBe("Material");
+  expect(italian?.resource.properties[0]?.properties[0]?.label).toBe("Pietra");
+  expect(english?.resource.document?.content).toBe("Ein Dokument");
+});
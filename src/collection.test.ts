@@ -0,0 +1,122 @@
+import type { Property } from "./types/main.js";
+import type { CollectionItem } from "./utils/collection.js";
+import { expect, it } from "vitest";
+import { queryCollection } from "./utils/collection.js";
+
+function createProperty(label: string, content: string): Property {
+  return {
+    label,
+    values: [
+      {
+        type: "string",
+        value: content,
+        content,
+        category: null,
+        uuid: null,
+        publicationDateTime: null,
+      },
+    ],
+    comment: null,
+    properties: [],
+  };
+}
+
+function createItem(
+  number: number,
+  label: string,
+  period: string,
+  material: string,
+): CollectionItem {
+  return {
+    uuid: `item-${number}`,
+    identification: { label, abbreviation: "" },
+    type: number % 2 === 0 ? "object" : "sample",
+    number,
+    date: new Date(`19${number}0-01-01`),
+    properties: [
+      createProperty("Period", period),
+      createProperty("Material", material),
+    ],
+  };
+}
+
+const items = [
+  createItem(3, "Fibula", "Iron Age", "Bronze"),
+  createItem(1, "Blade", "Iron Age", "Iron"),
+  createItem(2, "Bracelet", "Iron Age", "Bronze and glass"),
+  createItem(4, "Axe", "Bronze Age", "Bronze"),
+];
+
+it("queryCollection combines filters and sorts matching items", () => {
+  const { items: matchingItems, total } = queryCollection(items, {
+    filter: {
+      and: [
+        { property: { path: "Period", value: "Iron Age" } },
+        { property: { path: "Material", value: "*bronze*" } },
+      ],
+    },
+    sort: { by: "number" },
+  });
+
+  expect(total).toBe(2);
+  expect(matchingItems.map((item) => item.number)).toEqual([2, 3]);
+
+  expect(
+    queryCollection(items, {
+      filter: {
+        or: [{ label: "axe" }, { not: { type: ["object", "sample"] } }],
+      },
+    }).items.map((item) => item.uuid),
+  ).toEqual(["item-4"]);
+  expect(
+    queryCollection(items, {
+      filter: { date: { min: new Date("1925-01-01") } },
+    }).total,
+  ).toBe(2);
+});
+
+it("queryCollection computes facet counts over all matching items", () => {
+  const { facets } = queryCollection(items, {
+    facets: ["Period", "Material"],
+    limit: 1,
+  });
+
+  expect(facets.Period).toEqual([
+    { value: "Iron Age", count: 3 },
+    { value: "Bronze Age", count: 1 },
+  ]);
+  expect(facets.Material?.[0]).toEqual({ value: "Bronze", count: 2 });
+});
+
+it("queryCollection sorts by several keys and pages the results", () => {
+  const { items: page, total } = queryCollection(items, {
+    sort: [{ by: { property: "Period" }, direction: "desc" }, { by: "label" }],
+    offset: 1,
+    limit: 2,
+  });
+
+  expect(total).toBe(4);
+  expect(page.map((item) => item.identification?.label)).toEqual([
+    "Bracelet",
+    "Fibula",
+  ]);
+});
+
+it("queryCollection sorts missing values last in both directions", () => {
+  const itemsWithMissingValues = [
+    { ...createItem(5, "Pin", "Iron Age", "Bronze"), number: null },
+    ...items,
+  ];
+
+  for (const direction of ["asc", "desc"] as const) {
+    const { items: sortedItems } = queryCollection(itemsWithMissingValues, {
+      sort: { by: "number", direction },
+    });
+
+    expect(sortedItems.map((item) => item.identification?.label)).toEqual(
+      direction === "asc" ?
+        ["Blade", "Bracelet", "Fibula", "Axe", "Pin"]
+      : ["Axe", "Fibula", "Bracelet", "Blade", "Pin"],
+    );
+  }
+});
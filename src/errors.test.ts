@@ -0,0 +1,47 @@
+import { expect, it } from "vitest";
+import { createOchreClient } from "./utils/client.js";
+import {
+  OchreHttpError,
+  OchreInvalidUuidError,
+  OchreMissingKeyError,
+  OchreParseError,
+  toOchreError,
+  unwrap,
+} from "./utils/errors.js";
+
+const uuid = "7d2c4e6a-8b0f-4a1c-9e3d-5f7a9b1c3e5d";
+
+it("fetchers return typed errors for invalid UUIDs and HTTP failures", async () => {
+  const client = createOchreClient({
+    fetch: () => Promise.resolve(new Response(null, { status: 404 })),
+  });
+
+  const [invalidUuidError] = await client.fetchResource("not-a-uuid");
+  const [httpError, result] = await client.fetchResource(uuid);
+
+  expect(invalidUuidError).toBeInstanceOf(OchreInvalidUuidError);
+  expect(httpError?.kind).toBe("http");
+  expect(httpError instanceof OchreHttpError && httpError.status).toBe(404);
+  expect(result).toBeNull();
+  await expect(client.fetchResource(uuid).then(unwrap)).rejects.toThrow(
+    OchreHttpError,
+  );
+});
+
+it("unwrap returns the data of a successful result", () => {
+  expect(unwrap([null, { uuid }])).toEqual({ uuid });
+});
+
+it("toOchreError keeps OCHRE errors and wraps anything else with its path", () => {
+  const missingKeyError = new OchreMissingKeyError("resource");
+  const cause = new TypeError("Expected integer value, received “x”");
+  const parseError = toOchreError(cause, ["resource", "properties", 0]);
+
+  expect(toOchreError(missingKeyError, ["resource"])).toBe(missingKeyError);
+  expect(parseError).toBeInstanceOf(OchreParseError);
+  expect(parseError.message).toBe(
+    "Expected integer value, received “x” (at “resource.properties.0”)",
+  );
+  expect(parseError.cause).toBe(cause);
+  expect(toOchreError("boom").message).toBe("Unknown error");
+});
@@ -0,0 +1,229 @@
+import { expect, it } from "vitest";
+import { createOchreClient } from "./utils/client.js";
+import { withDiagnostics } from "./utils/diagnostics.js";
+
+const articleUuid = "2a4c6e8b-0d1f-4a3c-8e5b-7d9f1b3d5e7a";
+const footnoteUuids = [
+  "7d3f2a1b-5e6c-4a8d-9b0e-1c2d3e4f5a6b",
+  "8e4a3b2c-6f7d-4b9e-8c1f-2d3e4f5a6b7c",
+  "9f5b4c3d-7a8e-4c0f-9d2a-3e4f5a6b7c8d",
+] as const;
+
+function createDocument(
+  text: string,
+  footnotes: Array<{ uuid: string; label: string }>,
+) {
+  return {
+    content: {
+      lang: "eng",
+      string: [
+        text,
+        ...footnotes.map((footnote) => ({
+          annotation: footnote.uuid,
+          string: footnote.label,
+          links: {
+            resource: {
+              uuid: footnote.uuid,
+              type: "internalDocument",
+              content: "Footnote",
+            },
+          },
+        })),
+      ],
+    },
+  };
+}
+
+function createResource(
+  uuid: string,
+  document: ReturnType<typeof createDocument>,
+) {
+  return {
+    uuid,
+    uuidBelongsTo: "3b5d7f9a-1c2e-4b4d-9f6a-8e0a2c4e6f8b",
+    belongsTo: "journal",
+    publicationDateTime: "2022-09-01T00:00:00Z",
+    metadata: {
+      identifier: { content: "journal" },
+      publisher: { content: "journal" },
+      dataset: { content: "journal" },
+      language: { default: true, content: "eng" },
+      description: { content: "Articles" },
+    },
+    resource: {
+      uuid,
+      publicationDateTime: "2022-09-01T00:00:00Z",
+      type: "internalDocument",
+      n: 1,
+      identification: { label: { content: "Article" } },
+      document,
+    },
+  };
+}
+
+function createFootnote(
+  uuid: string,
+  text: string,
+  footnotes: Array<{ uuid: string; label: string }> = [],
+) {
+  return createResource(uuid, createDocument(text, footnotes));
+}
+
+function createArticleClient(
+  footnotes: Array<{ uuid: string; label: string }>,
+  resolveFootnotes: (url: string) => unknown,
+  requests: Array<string> = [],
+) {
+  return createOchreClient({
+    resolveFootnotes: true,
+    fetch: (input) => {
+      const url = decodeURIComponent(input.toString());
+      requests.push(url);
+
+      return Promise.resolve(
+        Response.json(
+          url.includes("input()") ?
+            { result: { ochre: resolveFootnotes(url) } }
+          : {
+              ochre: createResource(
+                articleUuid,
+                createDocument("Text", footnotes),
+              ),
+            },
+        ),
+      );
+    },
+  });
+}
+
+it("resolveDocumentFootnotes resolves nested footnotes in batches", async () => {
+  const requests: Array<string> = [];
+  const client = createArticleClient(
+    [
+      { uuid: footnoteUuids[0], label: "1" },
+      { uuid: footnoteUuids[1], label: "2" },
+      { uuid: footnoteUuids[0], label: "3" },
+    ],
+    (url) =>
+      url.includes(footnoteUuids[2]) ?
+        createFootnote(footnoteUuids[2], "Nested note")
+      : [
+          createFootnote(footnoteUuids[0], "First note", [
+            { uuid: footnoteUuids[2], label: "1" },
+          ]),
+          createFootnote(footnoteUuids[1], "Second note"),
+        ],
+    requests,
+  );
+
+  const [, result] = await client.fetchResource(articleUuid);
+
+  expect(requests).toHaveLength(3);
+  expect(
+    result?.resource.document?.footnotes.map((footnote) => [
+      footnote.number,
+      footnote.uuid,
+      footnote.content.split(" <Footnote")[0],
+    ]),
+  ).toEqual([
+    [1, footnoteUuids[0], "First note"],
+    [2, footnoteUuids[1], "Second note"],
+    [3, footnoteUuids[2], "Nested note"],
+  ]);
+  expect(result?.resource.document?.footnotes[0]?.content).toContain(
+    `<Footnote uuid="${footnoteUuids[2]}" label="3"`,
+  );
+  expect(result?.resource.document?.footnotes[2]?.label).toBe("3");
+});
+
+it("resolveDocumentFootnotes numbers footnotes with non-numeric labels", async () => {
+  const client = createArticleClient(
+    [
+      { uuid: footnoteUuids[0], label: "*" },
+      { uuid: footnoteUuids[1], label: "†" },
+    ],
+    (url) =>
+      url.includes(footnoteUuids[2]) ?
+        createFootnote(footnoteUuids[2], "Nested note")
+      : [
+          createFootnote(footnoteUuids[0], "First note", [
+            { uuid: footnoteUuids[2], label: "a" },
+          ]),
+          createFootnote(footnoteUuids[1], "Second note"),
+        ],
+  );
+
+  const [, result] = await client.fetchResource(articleUuid, {
+    richText: true,
+  });
+  const document = result?.resource.document;
+
+  expect(
+    document?.footnotes.map((footnote) => [footnote.number, footnote.label]),
+  ).toEqual([
+    [1, "1"],
+    [2, "2"],
+    [3, "3"],
+  ]);
+  expect(document?.content).toContain(
+    `<Footnote uuid="${footnoteUuids[0]}" label="1"`,
+  );
+  expect(document?.content).toContain(
+    `<Footnote uuid="${footnoteUuids[1]}" label="2"`,
+  );
+  expect(document?.content).not.toMatch(/label="[*†]"/);
+  expect(
+    document?.richText?.children.flatMap((node) =>
+      node.type === "footnoteReference" ? [node.label] : [],
+    ),
+  ).toEqual(["1", "2"]);
+  expect(document?.footnotes[0]?.content).toContain(
+    `<Footnote uuid="${footnoteUuids[2]}" label="3"`,
+  );
+});
+
+it("resolveDocumentFootnotes reports footnotes missing from the response or that are not resources", async () => {
+  const createClient = () =>
+    createArticleClient(
+      [
+        { uuid: footnoteUuids[0], label: "1" },
+        { uuid: footnoteUuids[1], label: "2" },
+      ],
+      () => {
+        const { resource: _, ...footnote } = createFootnote(
+          footnoteUuids[1],
+          "Person",
+        );
+
+        return {
+          ...footnote,
+          person: {
+            uuid: footnoteUuids[1],
+            identification: { label: { content: "Person" } },
+          },
+        };
+      },
+    );
+
+  const [error] = await createClient().fetchResource(articleUuid);
+  expect(error?.message).toBe(`Item “${footnoteUuids[0]}” not found`);
+
+  const { data, diagnostics } = await withDiagnostics((diagnostics) =>
+    createClient().fetchResource(articleUuid, { diagnostics }),
+  );
+  expect(
+    data[1]?.resource.document?.footnotes.map((footnote) => footnote.content),
+  ).toEqual(["", ""]);
+  expect(diagnostics).toEqual([
+    {
+      uuid: footnoteUuids[0],
+      path: [],
+      message: `Item “${footnoteUuids[0]}” not found`,
+    },
+    {
+      uuid: footnoteUuids[1],
+      path: [],
+      message: `Footnote “${footnoteUuids[1]}” is a person, not a resource`,
+    },
+  ]);
+});
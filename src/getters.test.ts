@@ -0,0 +1,91 @@
+import type { Property, PropertyValue } from "./types/main.js";
+import { expect, it } from "vitest";
+import { queryProperties } from "./utils/getters.js";
+
+function createValue(
+  content: string,
+  typedValue?: Pick<PropertyValue, "type" | "value">,
+  uuid: string | null = null,
+): PropertyValue {
+  return {
+    ...(typedValue ?? { type: "string", value: content }),
+    content,
+    category: null,
+    uuid,
+    publicationDateTime: null,
+  } as PropertyValue;
+}
+
+function createProperty(
+  label: string,
+  values: Array<PropertyValue>,
+  properties: Array<Property> = [],
+): Property {
+  return { label, values, comment: null, properties };
+}
+
+const properties = [
+  createProperty(
+    "Material",
+    [createValue("Stone", { type: "string", value: "Stone" }, "stone-uuid")],
+    [
+      createProperty("Type", [createValue("Limestone")]),
+      createProperty("Weight", [
+        createValue("12.5", { type: "number", value: 12.5 }),
+      ]),
+    ],
+  ),
+  createProperty(
+    "Period",
+    [createValue("Iron Age")],
+    [
+      createProperty("Date", [
+        createValue("1900-01-01", {
+          type: "date",
+          value: new Date("1900-01-01"),
+        }),
+      ]),
+    ],
+  ),
+];
+
+it("queryProperties matches label paths through values", () => {
+  const matches = queryProperties(properties, "material > Stone > Type");
+
+  expect(matches.map((match) => match.path)).toEqual([["Material", "Type"]]);
+  expect(matches[0]?.ancestors[0]?.label).toBe("Material");
+  expect(matches[0]?.values.map((value) => value.content)).toEqual([
+    "Limestone",
+  ]);
+});
+
+it("queryProperties supports wildcards and recursive segments", () => {
+  expect(
+    queryProperties(properties, "Material > *").map((match) => match.path),
+  ).toEqual([
+    ["Material", "Type"],
+    ["Material", "Weight"],
+  ]);
+  expect(
+    queryProperties(properties, "** > Da*").map((match) => match.path),
+  ).toEqual([["Period", "Date"]]);
+  expect(queryProperties(properties, "**")).toHaveLength(5);
+});
+
+it("queryProperties filters values by UUID and numeric or date ranges", () => {
+  expect(
+    queryProperties(properties, { path: "Material", uuid: "stone-uuid" }),
+  ).toHaveLength(1);
+  expect(
+    queryProperties(properties, { path: "** > Weight", min: 10, max: 20 }),
+  ).toHaveLength(1);
+  expect(
+    queryProperties(properties, { path: "** > Weight", min: 20 }),
+  ).toHaveLength(0);
+  expect(
+    queryProperties(properties, {
+      path: "**",
+      max: new Date("1950-01-01"),
+    }).map((match) => match.path),
+  ).toEqual([["Period", "Date"]]);
+});
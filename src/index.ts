@@ -1,6 +1,19 @@
 export * from "./types/main.js";
+export * from "./utils/cache.js";
+export * from "./utils/client.js";
+export * from "./utils/collection.js";
+export * from "./utils/config.js";
+export * from "./utils/diagnostics.js";
+export * from "./utils/errors.js";
+export * from "./utils/fetchers/bibliography.js";
 export * from "./utils/fetchers/concept.js";
+export * from "./utils/fetchers/footnotes.js";
 export * from "./utils/fetchers/generic.js";
+export * from "./utils/fetchers/items.js";
+export * from "./utils/fetchers/pages.js";
+export * from "./utils/fetchers/period.js";
+export * from "./utils/fetchers/person.js";
+export * from "./utils/fetchers/query.js";
 export * from "./utils/fetchers/resource.js";
 export * from "./utils/fetchers/set.js";
 export * from "./utils/fetchers/spatial-unit.js";
@@ -8,4 +21,9 @@ export * from "./utils/fetchers/tree.js";
 export * from "./utils/fetchers/website.js";
 export * from "./utils/getters.js";
 export * from "./utils/parse.js";
+export * from "./utils/queue.js";
+export * from "./utils/render.js";
+export * from "./utils/schemas.js";
+export * from "./utils/search.js";
 export * from "./utils/string.js";
+export * from "./utils/xquery.js";
@@ -0,0 +1,163 @@
+import { expect, it } from "vitest";
+import { createMemoryCache } from "./utils/cache.js";
+import { createOchreClient } from "./utils/client.js";
+
+const potteryUuid = "8a3f2b1c-4d5e-4f6a-9b7c-0d1e2f3a4b5c";
+const coinUuid = "9b4a3c2d-5e6f-4a7b-8c9d-1e2f3a4b5c6d";
+const missingUuid = "6c2e1f3a-4d5b-4f7c-9a8e-0b1c2d3e4f5a";
+
+function createItem(uuid: string, label: string) {
+  return {
+    uuid,
+    uuidBelongsTo: "1f2e3d4c-5b6a-4978-8a9b-0c1d2e3f4a5b",
+    belongsTo: "excavation",
+    publicationDateTime: "2024-06-01T00:00:00Z",
+    metadata: {
+      identifier: { content: "excavation" },
+      publisher: { content: "excavation" },
+      dataset: { content: "excavation" },
+      language: { default: true, content: "eng" },
+      description: { content: "Finds" },
+    },
+    resource: {
+      uuid,
+      publicationDateTime: "2024-06-01T00:00:00Z",
+      type: "image",
+      n: 1,
+      identification: { label: { content: label } },
+    },
+  };
+}
+
+const pottery = createItem(potteryUuid, "Pottery sherd");
+const coin = createItem(coinUuid, "Bronze coin");
+
+it("fetchItems batches many UUIDs into a single request keyed by UUID", async () => {
+  const requests: Array<string> = [];
+  const client = createOchreClient({
+    fetch: (input) => {
+      requests.push(decodeURIComponent(input.toString()));
+      return Promise.resolve(
+        Response.json({ result: { ochre: [pottery, coin] } }),
+      );
+    },
+  });
+
+  const results = await client.fetchItems([
+    potteryUuid,
+    coinUuid,
+    missingUuid,
+    "not-a-uuid",
+  ]);
+
+  expect(requests).toHaveLength(1);
+  expect(requests[0]).toContain(
+    `input()/ochre[@uuid=('${potteryUuid}','${coinUuid}','${missingUuid}')]`,
+  );
+  expect(results[potteryUuid]?.[1]?.item.variant).toBe("resource");
+  expect(results[coinUuid]?.[1]?.item.uuid).toBe(coinUuid);
+  expect(results[missingUuid]?.[0]?.message).toBe(
+    `Item “${missingUuid}” not found`,
+  );
+  expect(results["not-a-uuid"]?.[0]?.kind).toBe("invalid-uuid");
+});
+
+it("fetchManyByUuid matches UUIDs case-insensitively", async () => {
+  const requests: Array<string> = [];
+  const client = createOchreClient({
+    fetch: (input) => {
+      requests.push(decodeURIComponent(input.toString()));
+      return Promise.resolve(Response.json({ result: { ochre: pottery } }));
+    },
+  });
+
+  const upperCaseUuid = potteryUuid.toUpperCase();
+  const results = await client.fetchManyByUuid([upperCaseUuid, potteryUuid]);
+
+  expect(requests).toHaveLength(1);
+  expect(requests[0]).toContain(`input()/ochre[@uuid=('${potteryUuid}')]`);
+  expect(Object.keys(results)).toEqual([upperCaseUuid, potteryUuid]);
+  expect(results[upperCaseUuid]?.[1]?.ochre.uuid).toBe(potteryUuid);
+  expect(results[potteryUuid]?.[1]?.ochre.uuid).toBe(potteryUuid);
+});
+
+it("fetchManyByUuid revalidates every cached item in a single request", async () => {
+  const requests: Array<string> = [];
+  const client = createOchreClient({
+    cache: createMemoryCache(),
+    concurrency: 1,
+    fetch: (input) => {
+      const url = decodeURIComponent(input.toString());
+      requests.push(url);
+
+      return Promise.resolve(
+        Response.json({
+          result:
+            url.includes("publicationDateTime=") ?
+              {
+                item: [
+                  {
+                    uuid: potteryUuid,
+                    publicationDateTime: "2024-06-01T00:00:00Z",
+                  },
+                  {
+                    uuid: coinUuid,
+                    publicationDateTime: "2025-02-01T00:00:00Z",
+                  },
+                ],
+              }
+            : { ochre: url.includes(potteryUuid) ? [pottery, coin] : coin },
+        }),
+      );
+    },
+  });
+
+  await client.fetchManyByUuid([potteryUuid, coinUuid]);
+  const results = await client.fetchManyByUuid([potteryUuid, coinUuid]);
+
+  expect(requests).toHaveLength(3);
+  expect(requests[1]).toContain(
+    `input()/ochre[@uuid=('${potteryUuid}','${coinUuid}')]`,
+  );
+  expect(requests[1]).toContain("publicationDateTime=");
+  expect(requests[2]).toContain(`input()/ochre[@uuid=('${coinUuid}')]`);
+  expect(results[potteryUuid]?.[1]?.ochre.uuid).toBe(potteryUuid);
+  expect(results[coinUuid]?.[1]?.ochre.uuid).toBe(coinUuid);
+});
+
+it("fetchItem and fetchItems share cache entries whatever the case of the UUID", async () => {
+  const requests: Array<string> = [];
+  const client = createOchreClient({
+    cache: createMemoryCache(),
+    cacheTtl: 60_000,
+    fetch: (input) => {
+      requests.push(input.toString());
+      return Promise.resolve(Response.json({ result: { ochre: pottery } }));
+    },
+  });
+
+  await client.fetchItems([potteryUuid]);
+  const [error, item] = await client.fetchItem(potteryUuid.toUpperCase());
+
+  expect(error).toBeNull();
+  expect(item?.item.uuid).toBe(potteryUuid);
+  expect(requests).toHaveLength(1);
+});
+
+it("fetchManyByUuid returns an error for every UUID given an invalid batch size", async () => {
+  const requests: Array<string> = [];
+  const client = createOchreClient({
+    fetch: (input) => {
+      requests.push(input.toString());
+      return Promise.resolve(Response.json({ result: { ochre: pottery } }));
+    },
+  });
+
+  const results = await client.fetchManyByUuid([potteryUuid, coinUuid], {
+    batchSize: 0,
+  });
+
+  expect(requests).toHaveLength(0);
+  expect(results[potteryUuid]?.[0]?.message).toBe("Invalid batch size “0”");
+  expect(results[coinUuid]?.[0]?.kind).toBe("parse");
+});
@@ -0,0 +1,158 @@
+import { expect, it } from "vitest";
+import { createOchreClient } from "./utils/client.js";
+import { withDiagnostics } from "./utils/diagnostics.js";
+import { OchreMissingKeyError } from "./utils/errors.js";
+
+const treeUuid = "5c7e9a1b-3d5f-4b7d-9f1a-2c4e6a8b0d2f";
+
+function createPeriod(label: string) {
+  return {
+    period: {
+      uuid: "6d8f0b2c-4e6a-4c8e-8a2b-3d5f7b9c1e3a",
+      identification: { label: { content: label } },
+    },
+  };
+}
+
+function createResource(label: string) {
+  return {
+    resource: {
+      uuid: "7e9a1c3d-5f7b-4d9f-9b3c-4e6a8c0d2f4b",
+      publicationDateTime: "2021-04-01T00:00:00Z",
+      type: "image",
+      n: 1,
+      identification: { label: { content: label } },
+    },
+  };
+}
+
+/**
+ * Answers the page requests of a tree from its pages of two items, and its existence checks
+ */
+function createTreeClient(pages: Array<Array<unknown>>, exists = true) {
+  const requests: Array<string> = [];
+  const client = createOchreClient({
+    fetch: (input) => {
+      const xquery = new URL(input.toString()).searchParams.get("xquery") ?? "";
+      requests.push(xquery);
+
+      if (xquery.includes("publicationDateTime=")) {
+        return Promise.resolve(
+          Response.json({
+            result:
+              exists ?
+                {
+                  item: {
+                    uuid: treeUuid,
+                    publicationDateTime: "2021-04-01T00:00:00Z",
+                  },
+                }
+              : [],
+          }),
+        );
+      }
+
+      const offset = Number(/subsequence\(.*, (\d+), 2\)/.exec(xquery)?.[1]);
+      const items = pages[(offset - 1) / 2] ?? [];
+      return Promise.resolve(
+        Response.json({ result: items.length > 0 ? { item: items } : [] }),
+      );
+    },
+  });
+
+  return { client, requests };
+}
+
+it("iterateTree fetches tree items page by page", async () => {
+  const { client, requests } = createTreeClient([
+    [createResource("R1"), createResource("R2")],
+    [createResource("R3"), createPeriod("P4")],
+    [createResource("R5")],
+  ]);
+
+  const labels = [];
+  for await (const item of client.iterateTree(treeUuid, { pageSize: 2 })) {
+    labels.push(item.identification.label);
+  }
+  const [, page] = await client.fetchTreePage(treeUuid, {
+    pageSize: 2,
+    cursor: "2",
+  });
+
+  expect(labels).toEqual(["R1", "R2", "R3", "P4", "R5"]);
+  expect(requests).toHaveLength(4);
+  expect(requests[0]).toContain(
+    `input()/ochre[@uuid='${treeUuid}']/tree/items/*`,
+  );
+  expect(page?.cursor).toBe("2");
+  expect(page?.nextCursor).toBe("4");
+});
+
+it("iterateTree keeps paging past items skipped in lenient mode", async () => {
+  const { client } = createTreeClient([
+    [createPeriod("P1"), { period: { uuid: treeUuid } }],
+    [createPeriod("P3"), createResource("R4")],
+    [createPeriod("P5")],
+  ]);
+
+  const { data: labels, diagnostics } = await withDiagnostics(
+    async (diagnostics) => {
+      const labels = [];
+      for await (const item of client.iterateTree(treeUuid, {
+        pageSize: 2,
+        diagnostics,
+      })) {
+        labels.push(item.identification.label);
+      }
+      return labels;
+    },
+  );
+
+  expect(labels).toEqual(["P1", "P3", "R4", "P5"]);
+  expect(diagnostics.map((diagnostic) => diagnostic.path)).toContainEqual([
+    "item",
+    1,
+    "period",
+    0,
+  ]);
+});
+
+it("fetchTreePage returns an empty last page past the end of an existing tree", async () => {
+  const { client, requests } = createTreeClient([
+    [createResource("R1"), createResource("R2")],
+  ]);
+
+  const [error, page] = await client.fetchTreePage(treeUuid, {
+    pageSize: 2,
+    cursor: "2",
+  });
+
+  expect(error).toBeNull();
+  expect(page).toEqual({ items: [], cursor: "2", nextCursor: null });
+  expect(requests[1]).toContain(`input()/ochre[@uuid=('${treeUuid}')][tree]`);
+});
+
+it("fetchTreePage and iterateTree fail on an unknown tree or an item of another category", async () => {
+  const { client } = createTreeClient([], false);
+
+  const [error] = await client.fetchTreePage(treeUuid);
+
+  expect(error).toBeInstanceOf(OchreMissingKeyError);
+  expect(error?.message).toBe(`Tree “${treeUuid}” not found`);
+  await expect(async () => {
+    for await (const _ of client.iterateTree(treeUuid)) {
+      // The tree is never found, so no item is yielded
+    }
+  }).rejects.toThrow(`Tree “${treeUuid}” not found`);
+});
+
+it("fetchTreePage rejects cursors that are not offsets", async () => {
+  const { client, requests } = createTreeClient([]);
+
+  for (const cursor of ["", " 2", "-2", "1.5", "1e3", "abc"]) {
+    const [error] = await client.fetchTreePage(treeUuid, { cursor });
+
+    expect(error?.message).toBe(`Invalid cursor “${cursor}”`);
+  }
+  expect(requests).toHaveLength(0);
+});
@@ -0,0 +1,173 @@
+import type { OchreProperty } from "./types/internal.raw.js";
+import { expect, it } from "vitest";
+import { DEFAULT_PARSE_OPTIONS } from "./utils/config.js";
+import { withDiagnostics } from "./utils/diagnostics.js";
+import { OchreParseError } from "./utils/errors.js";
+import { parseProperties, parseTypedPropertyValue } from "./utils/parse.js";
+
+const stoneUuid = "0c6d1e0b-6f2b-4f5a-9e7d-1a2b3c4d5e6f";
+
+function createProperty(
+  label: string,
+  values: Array<{ type: string; content: string; uuid?: string }>,
+  properties: Array<OchreProperty> = [],
+): OchreProperty {
+  return {
+    label: { uuid: `${label}-uuid`, content: label },
+    value: values,
+    property: properties,
+  };
+}
+
+const measurements = [
+  createProperty("Height", [{ type: "number", content: "12.5" }]),
+  createProperty(
+    "Dimensions",
+    [],
+    [
+      createProperty("Width", [
+        { type: "integer", content: "42" },
+        { type: "integer", content: "1,000" },
+      ]),
+    ],
+  ),
+];
+
+it("parseTypedPropertyValue coerces values to their declared type", () => {
+  expect(parseTypedPropertyValue("integer", "-42", null)).toEqual({
+    type: "integer",
+    value: -42,
+  });
+  expect(parseTypedPropertyValue("number", " .5 ", null)).toEqual({
+    type: "number",
+    value: 0.5,
+  });
+  expect(parseTypedPropertyValue("boolean", "Yes", null)).toEqual({
+    type: "boolean",
+    value: true,
+  });
+  expect(parseTypedPropertyValue("date", "2020-05-01", null)).toEqual({
+    type: "date",
+    value: new Date("2020-05-01"),
+  });
+  expect(parseTypedPropertyValue("IDREF", "Stone", stoneUuid)).toEqual({
+    type: "IDREF",
+    value: {
+      uuid: stoneUuid,
+      label: "Stone",
+      url: `https://ochre.lib.uchicago.edu/ochre?uuid=${stoneUuid}`,
+    },
+  });
+});
+
+it("parseTypedPropertyValue only accepts decimal numbers", () => {
+  for (const content of ["0x10", "1e3", "1,000", "", " ", "Infinity", "1."]) {
+    expect(() => parseTypedPropertyValue("number", content, null)).toThrow(
+      `Expected number value, received “${content}”`,
+    );
+  }
+  expect(() => parseTypedPropertyValue("integer", "1.5", null)).toThrow(
+    TypeError,
+  );
+});
+
+it("parseTypedPropertyValue reads times in UTC unless they have an offset", () => {
+  expect(parseTypedPropertyValue("time", "14:30:00", null).value).toEqual(
+    new Date("1970-01-01T14:30:00Z"),
+  );
+  expect(parseTypedPropertyValue("time", "14:30:00+02:00", null).value).toEqual(
+    new Date("1970-01-01T12:30:00Z"),
+  );
+  expect(parseTypedPropertyValue("time", "14:30:00-0500", null).value).toEqual(
+    new Date("1970-01-01T19:30:00Z"),
+  );
+  expect(parseTypedPropertyValue("time", "14:30z", null).value).toEqual(
+    new Date("1970-01-01T14:30:00Z"),
+  );
+  expect(() => parseTypedPropertyValue("time", "noon", null)).toThrow(
+    "Expected time value, received “noon”",
+  );
+});
+
+it("parseProperties keeps mismatched values as null by default", () => {
+  const [height, dimensions] = parseProperties(measurements);
+
+  expect(height?.values[0]?.value).toBe(12.5);
+  expect(
+    dimensions?.properties[0]?.values.map((value) => [
+      value.type,
+      value.value,
+      value.content,
+    ]),
+  ).toEqual([
+    ["integer", 42, "42"],
+    ["integer", null, "1,000"],
+  ]);
+});
+
+it("parseProperties reports mismatched values at their path in lenient mode", () => {
+  const { data, diagnostics } = withDiagnostics((diagnostics) =>
+    parseProperties(measurements, {
+      ...DEFAULT_PARSE_OPTIONS,
+      diagnostics,
+      itemUuid: stoneUuid,
+      path: [],
+      strict: true,
+    }),
+  );
+
+  expect(data[1]?.properties[0]?.values[1]?.value).toBeNull();
+  expect(diagnostics).toEqual([
+    {
+      uuid: stoneUuid,
+      path: ["properties", 1, "properties", 0, "values", 1],
+      message: "Expected integer value, received “1,000”",
+    },
+  ]);
+});
+
+it("parseProperties fails on mismatched values at their path in strict mode", () => {
+  expect.assertions(2);
+
+  try {
+    parseProperties(measurements, {
+      ...DEFAULT_PARSE_OPTIONS,
+      strict: true,
+    });
+  } catch (error) {
+    expect(error).toBeInstanceOf(OchreParseError);
+    expect(error instanceof OchreParseError && error.path).toEqual([
+      "properties",
+      1,
+      "properties",
+      0,
+      "values",
+      1,
+    ]);
+  }
+});
+
+it("parseProperties selects content in the language of the options", () => {
+  const material = {
+    label: {
+      uuid: "material-uuid",
+      content: [
+        { lang: "eng", string: "Material" },
+        { lang: "ita", string: "Materiale" },
+      ],
+    },
+    value: [],
+    property: [
+      createProperty("Stone", [{ type: "string", content: "Limestone" }]),
+    ],
+  };
+
+  const [italian] = parseProperties([material], {
+    ...DEFAULT_PARSE_OPTIONS,
+    language: ["fra", "ita"],
+  });
+  const [english] = parseProperties([material]);
+
+  expect(italian?.label).toBe("Materiale");
+  expect(english?.label).toBe("Material");
+});
@@ -0,0 +1,50 @@
+import { expect, it } from "vitest";
+import { createOchreClient } from "./utils/client.js";
+
+const periodUuid = "1a3c5e7b-9d1f-4b3d-8f5b-7c9e1a3c5e7d";
+
+it("fetchPeriod fetches full period records", async () => {
+  const client = createOchreClient({
+    fetch: () =>
+      Promise.resolve(
+        Response.json({
+          ochre: {
+            uuid: periodUuid,
+            uuidBelongsTo: "2b4d6f8a-0c2e-4c4e-9a6c-8d0f2b4d6f8b",
+            belongsTo: "chronology",
+            publicationDateTime: "2023-11-20T00:00:00Z",
+            metadata: {
+              identifier: { content: "chronology" },
+              publisher: { content: "chronology" },
+              dataset: { content: "chronology" },
+              language: { default: true, content: "eng" },
+              description: { content: "Periods" },
+            },
+            period: {
+              uuid: periodUuid,
+              identification: {
+                label: {
+                  content: [
+                    { lang: "eng", string: "Iron Age" },
+                    { lang: "ita", string: "Età del ferro" },
+                  ],
+                },
+              },
+              startDate: { year: -1200 },
+              endDate: { year: -550, month: 6 },
+            },
+          },
+        }),
+      ),
+  });
+
+  const [error, result] = await client.fetchPeriod(periodUuid);
+
+  expect(error).toBeNull();
+  expect(result?.period.names).toEqual({
+    eng: "Iron Age",
+    ita: "Età del ferro",
+  });
+  expect(result?.period.start).toEqual({ year: -1200, month: null, day: null });
+  expect(result?.period.end).toEqual({ year: -550, month: 6, day: null });
+});
@@ -0,0 +1,120 @@
+import { expect, it } from "vitest";
+import { createOchreClient } from "./utils/client.js";
+import { OchreMissingKeyError } from "./utils/errors.js";
+
+const personUuid = "4b6d8f0a-2c4e-4a6c-8e0a-1b3d5f7a9c1e";
+
+const metadata = {
+  identifier: { content: "excavation" },
+  publisher: { content: "excavation" },
+  dataset: { content: "excavation" },
+  language: { default: true, content: "eng" },
+  description: { content: "Team" },
+};
+
+function createResponse(item: Record<string, unknown>) {
+  return {
+    ochre: {
+      uuid: personUuid,
+      uuidBelongsTo: "5c7e9a1b-3d5f-4b7d-9f1a-2c4e6a8b0d2f",
+      belongsTo: "excavation",
+      publicationDateTime: "2024-01-15T00:00:00Z",
+      metadata,
+      ...item,
+    },
+  };
+}
+
+const person = {
+  uuid: personUuid,
+  publicationDateTime: "2024-01-15T00:00:00Z",
+  type: "person",
+  date: "1901-02-03",
+  identification: {
+    label: {
+      content: [
+        { lang: "eng", string: "James Henry Breasted" },
+        { lang: "ita", string: "J. H. Breasted" },
+      ],
+    },
+    abbreviation: { content: "JHB" },
+  },
+  description: { content: "Egyptologist" },
+  notes: { note: { noteNo: 1, content: { string: "Founded the institute" } } },
+  events: {
+    event: {
+      dateTime: "1919-05-01",
+      label: { content: "Founded" },
+    },
+  },
+  properties: {
+    property: {
+      label: { uuid: "6d8f0b2c-4e6a-4c8e-8a2b-3d5f7b9c1e3a", content: "Role" },
+      value: { type: "string", content: "Director" },
+    },
+  },
+};
+
+it("fetchPerson parses the fields of a person", async () => {
+  const client = createOchreClient({
+    fetch: () => Promise.resolve(Response.json(createResponse({ person }))),
+  });
+
+  const [error, result] = await client.fetchPerson(personUuid);
+
+  expect(error).toBeNull();
+  expect(result?.metadata.dataset).toBe("excavation");
+  expect(result?.person).toMatchObject({
+    uuid: personUuid,
+    variant: "person",
+    type: "person",
+    date: new Date("1901-02-03"),
+    identification: { label: "James Henry Breasted", abbreviation: "JHB" },
+    names: { eng: "James Henry Breasted", ita: "J. H. Breasted" },
+    description: "Egyptologist",
+    events: [{ date: new Date("1919-05-01"), label: "Founded", agent: null }],
+  });
+  expect(result?.person.notes.map((note) => note.content)).toEqual([
+    "Founded the institute",
+  ]);
+  expect(
+    result?.person.properties.map((property) => [
+      property.label,
+      property.values[0]?.content,
+    ]),
+  ).toEqual([["Role", "Director"]]);
+});
+
+it("fetchPerson fails on an unknown person", async () => {
+  const client = createOchreClient({
+    fetch: () => Promise.resolve(Response.json({ result: [] })),
+  });
+
+  const [error, result] = await client.fetchPerson(personUuid);
+
+  expect(result).toBeNull();
+  expect(error).toBeInstanceOf(OchreMissingKeyError);
+  expect(error instanceof OchreMissingKeyError && error.key).toBe("ochre");
+});
+
+it("fetchPerson fails to fetch a person from another item", async () => {
+  const client = createOchreClient({
+    fetch: () =>
+      Promise.resolve(
+        Response.json(
+          createResponse({
+            concept: {
+              uuid: personUuid,
+              identification: { label: { content: "Pottery" } },
+            },
+          }),
+        ),
+      ),
+  });
+
+  const [error, result] = await client.fetchPerson(personUuid);
+
+  expect(result).toBeNull();
+  expect(error).toBeInstanceOf(OchreMissingKeyError);
+  expect(error instanceof OchreMissingKeyError && error.key).toBe("person");
+});
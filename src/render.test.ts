@@ -0,0 +1,285 @@
+import type { OchreStringRichText } from "./types/internal.raw.js";
+import { expect, it } from "vitest";
+import { DEFAULT_PARSE_OPTIONS } from "./utils/config.js";
+import { parseDocument, parseNotes } from "./utils/parse.js";
+import { renderHtml, renderMdx, toPlainText } from "./utils/render.js";
+
+const footnoteUuid = "5c6a4f2e-8a0e-4c59-9b1d-3f7e2a9c1d40";
+const personUuid = "b1f0a8de-4e37-4d1c-a1a5-07cf2b7b9e21";
+
+const document: OchreStringRichText = {
+  lang: "eng",
+  string: [
+    { content: "Bronze", rend: "bold", whitespace: "trailing" },
+    { content: "fibula", rend: "italic underline" },
+    {
+      annotation: "a1",
+      string: "Smith",
+      links: {
+        person: {
+          uuid: personUuid,
+          publicationDateTime: "2020-01-01T00:00:00Z",
+          identification: { label: { content: "John Smith" } },
+        },
+      },
+    },
+    {
+      annotation: "a2",
+      string: "1",
+      links: {
+        resource: {
+          uuid: footnoteUuid,
+          type: "internalDocument",
+          content: "Footnote 1",
+        },
+      },
+    },
+    { whitespace: "newline" },
+    { content: "Contact info@example.com for <details>", rend: "bold" },
+    { whitespace: "newline" },
+  ],
+};
+
+it("parseDocument keeps the rich text tree when requested", () => {
+  const { richText, footnotes } = parseDocument(document, "eng", {
+    ...DEFAULT_PARSE_OPTIONS,
+    richText: true,
+  });
+
+  expect(richText?.children).toEqual([
+    { type: "text", value: "Bronze", marks: ["bold"] },
+    { type: "text", value: " ", marks: [] },
+    { type: "text", value: "fibula", marks: ["italic", "underline"] },
+    {
+      type: "link",
+      variant: "person",
+      uuid: personUuid,
+      itemType: null,
+      url: `${DEFAULT_PARSE_OPTIONS.baseUrl}?uuid=${personUuid}`,
+      title: "John Smith",
+      children: [{ type: "text", value: "Smith", marks: [] }],
+    },
+    {
+      type: "footnoteReference",
+      identifier: footnoteUuid,
+      label: "1",
+      title: "Footnote 1",
+    },
+    { type: "break", standalone: true },
+    { type: "text", value: "Contact ", marks: ["bold"] },
+    {
+      type: "link",
+      variant: "email",
+      uuid: null,
+      itemType: null,
+      url: "mailto:info@example.com",
+      title: null,
+      children: [{ type: "text", value: "info@example.com", marks: ["bold"] }],
+    },
+    { type: "text", value: " for <details>", marks: ["bold"] },
+    { type: "break", standalone: true },
+  ]);
+  expect(footnotes).toEqual([
+    { uuid: footnoteUuid, number: 1, label: "1", content: "" },
+  ]);
+  expect(parseDocument(document).richText).toBeUndefined();
+});
+
+it("parseDocument renders its content as MDX over the rich text tree", () => {
+  const { content, richText } = parseDocument(document, "eng", {
+    ...DEFAULT_PARSE_OPTIONS,
+    richText: true,
+  });
+
+  expect(content).toBe(renderMdx(richText ?? []));
+  expect(content).toBe(
+    `**Bronze** _*fibula*_<ExternalLink href="https:\\/\\/ochre.lib.uchicago.edu/ochre?uuid=${personUuid}" type="person" content="John Smith">Smith</ExternalLink> <Footnote uuid="${footnoteUuid}" label="1" content="Footnote 1" />  \n**Contact <ExternalLink href="mailto:info@example.com">info@example.com</ExternalLink> for <details>**  \n`,
+  );
+});
+
+it("parseDocument wraps formatted runs around the links they contain", () => {
+  const { content } = parseDocument({
+    string: [
+      { content: "see www.example.com today", rend: "bold" },
+      { whitespace: "newline" },
+      { content: "Plain www.example.com" },
+    ],
+  });
+  const [note] = parseNotes(["Visit www.example.com"]);
+
+  expect(content).toBe(
+    '**see <ExternalLink href="www.example.com">www.example.com</ExternalLink> today**  \nPlain www.example.com',
+  );
+  expect(note?.content).toBe("Visit www.example.com");
+});
+
+it("parseDocument renders MDX with custom components and link URLs", () => {
+  const { content } = parseDocument(document, "eng", {
+    ...DEFAULT_PARSE_OPTIONS,
+    mdx: {
+      components: { externalLink: "Link", footnote: "FootnoteRef" },
+      linkUrls: {
+        person: (link) => `/people/${link.uuid}`,
+        email: () => null,
+      },
+    },
+  });
+
+  expect(content).toBe(
+    `**Bronze** _*fibula*_<Link href="/people/${personUuid}" type="person" content="John Smith">Smith</Link> <FootnoteRef uuid="${footnoteUuid}" label="1" content="Footnote 1" />  \n**Contact <TooltipSpan>info@example.com</TooltipSpan> for <details>**  \n`,
+  );
+});
+
+it("renderHtml renders escaped HTML with configurable links", () => {
+  const { richText } = parseDocument(document, "eng", {
+    ...DEFAULT_PARSE_OPTIONS,
+    richText: true,
+  });
+
+  expect(
+    renderHtml(richText ?? [], {
+      linkUrl: (link) =>
+        link.uuid !== null ? `/items/${link.uuid}` : link.url,
+      linkClassName: (link) => `link-${link.variant}`,
+    }),
+  ).toBe(
+    `<strong>Bronze</strong> <u><em>fibula</em></u><a href="/items/${personUuid}" class="link-person" title="John Smith">Smith</a><sup><a href="#footnote-${footnoteUuid}" title="Footnote 1">1</a></sup><br><strong>Contact </strong><a href="mailto:info@example.com" class="link-email"><strong>info@example.com</strong></a><strong> for &lt;details&gt;</strong><br>`,
+  );
+});
+
+it("renderHtml escapes attributes and drops unsafe URLs", () => {
+  const html = renderHtml([
+    {
+      type: "link",
+      variant: "url",
+      uuid: null,
+      itemType: null,
+      url: " java\tscript:alert(1)",
+      title: 'A "quoted" <title>',
+      children: [{ type: "text", value: "Click", marks: [] }],
+    },
+    {
+      type: "link",
+      variant: "url",
+      uuid: null,
+      itemType: null,
+      url: "www.example.com",
+      title: null,
+      children: [{ type: "text", value: "www.example.com", marks: [] }],
+    },
+    {
+      type: "image",
+      uuid: "image-uuid",
+      url: "https://example.com/image.jpg",
+      alt: null,
+      width: 100,
+      height: null,
+    },
+  ]);
+
+  expect(html).toBe(
+    '<span title="A &quot;quoted&quot; &lt;title&gt;">Click</span><a href="https://www.example.com">www.example.com</a><img src="https://example.com/image.jpg" alt="" width="100">',
+  );
+  expect(
+    renderMdx([
+      {
+        type: "footnoteReference",
+        identifier: "footnote-uuid",
+        label: null,
+        title: 'Footnote "A"',
+      },
+    ]),
+  ).toBe(' <Footnote uuid="footnote-uuid" content="Footnote &quot;A&quot;" />');
+});
+
+it("renderers support extended and unknown render options", () => {
+  const { content, richText } = parseDocument(
+    {
+      lang: "eng",
+      string: [
+        { content: "m", whitespace: "trailing" },
+        { content: "2", rend: "superscript" },
+        { content: "H" },
+        { content: "2", rend: "subscript" },
+        { content: "O", rend: "strikethrough smallCaps" },
+        { content: "Ur", rend: "  spaced" },
+      ],
+    },
+    "eng",
+    { ...DEFAULT_PARSE_OPTIONS, richText: true },
+  );
+
+  expect(richText?.children).toEqual([
+    { type: "text", value: "m ", marks: [] },
+    { type: "text", value: "2", marks: ["superscript"] },
+    { type: "text", value: "H", marks: [] },
+    { type: "text", value: "2", marks: ["subscript"] },
+    { type: "text", value: "O", marks: ["strikethrough", "smallCaps"] },
+    { type: "text", value: "Ur", marks: ["spaced"] },
+  ]);
+  expect(content).toBe(
+    'm <sup>2</sup>H<sub>2</sub><span style={{ fontVariant: "small-caps" }}>~~O~~</span><span data-rend="spaced">Ur</span>',
+  );
+  expect(renderHtml(richText ?? [])).toBe(
+    'm <sup>2</sup>H<sub>2</sub><span style="font-variant: small-caps"><s>O</s></span><span data-rend="spaced">Ur</span>',
+  );
+  expect(toPlainText(content)).toBe("m 2H2OUr");
+});
+
+it("toPlainText strips formatting and keeps link text", () => {
+  const parsedDocument = parseDocument(document, "eng", {
+    ...DEFAULT_PARSE_OPTIONS,
+    richText: true,
+  });
+  const expectedText =
+    "Bronze fibulaSmith\nContact info@example.com for <details>";
+
+  expect(toPlainText(parsedDocument)).toBe(expectedText);
+  expect(toPlainText(parsedDocument.content)).toBe(expectedText);
+  expect(toPlainText("**Bold** and _*nested*_ text\n<br />with a break")).toBe(
+    "Bold and nested text\nwith a break",
+  );
+});
+
+it("toPlainText only strips formatting marks around whole words", () => {
+  expect(toPlainText("file_name_here and 2*3*4")).toBe(
+    "file_name_here and 2*3*4",
+  );
+  expect(toPlainText("**Bold**, _*nested*_ and ~~struck~~.")).toBe(
+    "Bold, nested and struck.",
+  );
+  expect(toPlainText("A <Details> tag")).toBe("A <Details> tag");
+});
+
+it("toPlainText strips custom MDX components", () => {
+  const mdx = {
+    components: { externalLink: "Link", footnote: "Note.Ref" },
+  } as const;
+  const parsedDocument = parseDocument(document, "eng", {
+    ...DEFAULT_PARSE_OPTIONS,
+    mdx,
+  });
+
+  expect(
+    toPlainText(parsedDocument, {
+      components: mdx.components,
+      footnotes: true,
+      lineBreaks: false,
+    }),
+  ).toBe("Bronze fibulaSmith[1] Contact info@example.com for <details>");
+});
+
+it("toPlainText appends footnotes and truncates on word boundaries", () => {
+  const parsedDocument = parseDocument(document);
+  parsedDocument.footnotes[0]!.content = "A *footnote*";
+
+  expect(
+    toPlainText(parsedDocument, { footnotes: true, lineBreaks: false }),
+  ).toBe(
+    "Bronze fibulaSmith[1] Contact info@example.com for <details> [1] A footnote",
+  );
+  expect(
+    toPlainText(parsedDocument, { lineBreaks: false, maxLength: 30 }),
+  ).toBe("Bronze fibulaSmith Contact…");
+  expect(toPlainText("Short text", { maxLength: 30 })).toBe("Short text");
+});
@@ -0,0 +1,185 @@
+import type { Webpage, Website } from "./types/main.js";
+import type { SearchableItem, SearchIndex } from "./utils/search.js";
+import { expect, it } from "vitest";
+import {
+  createSearchIndex,
+  getWebsiteSearchableItems,
+  searchIndex,
+} from "./utils/search.js";
+
+const items: Array<SearchableItem> = [
+  {
+    uuid: "fibula",
+    identification: { label: "Bronze fibula", abbreviation: "" },
+    description: "A brooch found near the café of the excavation house.",
+    properties: [
+      {
+        label: "Material",
+        values: [
+          {
+            type: "string",
+            value: "Bronze",
+            content: "Bronze",
+            category: null,
+            uuid: null,
+            publicationDateTime: null,
+          },
+        ],
+        comment: null,
+        properties: [],
+      },
+    ],
+  },
+  {
+    uuid: "tablet",
+    identification: { label: "Tablet", abbreviation: "" },
+    notes: [
+      {
+        number: 1,
+        title: null,
+        content:
+          'Mentions a <TooltipSpan type="concept">bronze</TooltipSpan> vessel delivered to the temple of Šamaš in the eleventh year of the king, together with several other offerings listed on the reverse.',
+      },
+    ],
+  },
+];
+
+it("searchIndex ranks matches and ignores case and diacritics", () => {
+  const serializedIndex = JSON.stringify(createSearchIndex(items));
+  const index = JSON.parse(serializedIndex) as SearchIndex;
+
+  expect(searchIndex(index, "BRONZE").map((result) => result.uuid)).toEqual([
+    "fibula",
+    "tablet",
+  ]);
+  expect(searchIndex(index, "cafe").map((result) => result.uuid)).toEqual([
+    "fibula",
+  ]);
+  expect(searchIndex(index, "samas bronze vess")).toHaveLength(1);
+  expect(searchIndex(index, "bronze constructor")).toEqual([]);
+  expect(searchIndex(index, "bronze", { limit: 1 })).toHaveLength(1);
+});
+
+it("searchIndex returns snippets with highlighted words", () => {
+  const [result] = searchIndex(createSearchIndex(items), "offerings", {
+    snippetLength: 60,
+  });
+  const snippet = result?.snippet;
+
+  expect(snippet?.field).toBe("notes");
+  expect(snippet?.text.startsWith("…")).toBe(true);
+  expect(snippet?.text).not.toContain("<TooltipSpan");
+  expect(
+    snippet?.highlights.map((range) =>
+      snippet.text.slice(range.start, range.end),
+    ),
+  ).toEqual(["offerings"]);
+});
+
+function createWebpage(
+  title: string,
+  slug: string,
+  elements: Webpage["elements"],
+  webpages: Array<Webpage> = [],
+): Webpage {
+  return {
+    title,
+    slug,
+    properties: {
+      displayedInHeader: true,
+      width: "default",
+      variant: "default",
+      backgroundImageUrl: null,
+      cssStyles: [],
+    },
+    elements,
+    webpages,
+  };
+}
+
+it("getWebsiteSearchableItems indexes webpages by slug path", () => {
+  const website: Website = {
+    uuid: "website",
+    publicationDateTime: null,
+    identification: { label: "Excavations", abbreviation: "" },
+    project: { name: "excavations", website: null },
+    creators: [],
+    license: null,
+    pages: [
+      createWebpage("Home", "", [
+        {
+          uuid: "welcome",
+          title: "Welcome",
+          cssStyles: [],
+          component: "text",
+          variant: "block",
+          content: "Welcome to the **excavation** website.",
+        },
+      ]),
+      createWebpage(
+        "About",
+        "about",
+        [],
+        [
+          createWebpage("Team", "team", [
+            {
+              uuid: "columns",
+              title: "Columns",
+              cssStyles: [],
+              component: "n-columns",
+              columns: [
+                {
+                  uuid: "director",
+                  title: "Director",
+                  cssStyles: [],
+                  component: "text",
+                  variant: "block",
+                  content: "The director leads the survey.",
+                },
+                {
+                  uuid: "report",
+                  title: "Report",
+                  cssStyles: [],
+                  component: "annotated-document",
+                  document: {
+                    content: "A report on the bronze hoard.",
+                    footnotes: [],
+                  },
+                },
+              ],
+            },
+          ]),
+        ],
+      ),
+    ],
+    sidebarElements: [],
+    properties: {
+      type: "traditional",
+      privacy: "public",
+      status: "production",
+      isHeaderDisplayed: true,
+      isFooterDisplayed: true,
+      isSidebarDisplayed: false,
+      searchCollectionUuid: null,
+      logoUrl: null,
+    },
+  };
+
+  const searchableItems = getWebsiteSearchableItems(website);
+  expect(searchableItems.map((item) => item.uuid)).toEqual([
+    "/",
+    "/about",
+    "/about/team",
+  ]);
+
+  const index = createSearchIndex(searchableItems);
+  expect(searchIndex(index, "excavation").map((result) => result.uuid)).toEqual(
+    ["/"],
+  );
+  expect(searchIndex(index, "bronze hoard")).toMatchObject([
+    { uuid: "/about/team", label: "Team" },
+  ]);
+  expect(searchIndex(index, "survey").map((result) => result.uuid)).toEqual([
+    "/about/team",
+  ]);
+});
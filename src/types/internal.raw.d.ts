@@ -8,7 +8,14 @@ export type FakeString = string | number | boolean;
 /**
  * Text rendering options for string content
  */
-export type RenderOption = "bold" | "italic" | "underline";
+export type RenderOption =
+  | "bold"
+  | "italic"
+  | "underline"
+  | "superscript"
+  | "subscript"
+  | "strikethrough"
+  | "smallCaps";
 
 /**
  * Whitespace handling options for string content
@@ -19,7 +26,7 @@ export type WhitespaceOption = "newline" | "trailing" | "leading";
  * Raw content item with rendering and whitespace options
  */
 export type OchreStringItemContent = {
-  rend?: string; // "bold" | "italic" | "underline" (space separated)
+  rend?: string; // RenderOption (space separated)
   whitespace?: string; // "newline" | "trailing" | "leading" (space separated)
   content: FakeString;
 };
@@ -48,7 +55,7 @@ export type OchreStringRichTextItemContent = {
   title?: FakeString;
   lang?: Language["iso6393"]; // 3 character code (zxx = "a.k.a.")
   whitespace?: string; // "newline" | "trailing" | "leading" (space separated)
-  rend?: string; // "bold" | "italic" | "underline"  (space separated)
+  rend?: string; // RenderOption (space separated)
 };
 
 /**
@@ -104,6 +111,8 @@ export type OchreData = {
     | { spatialUnit: OchreSpatialUnit }
     | { concept: OchreConcept }
     | { bibliography: OchreBibliography }
+    | { person: OchrePerson }
+    | { period: OchrePeriod }
   );
 };
 
@@ -439,8 +448,24 @@ export type OchrePeriod = {
   publicationDateTime?: string; // YYYY-MM-DDThh:mm:ssZ
   type?: string;
   n?: number;
+  context?: OchreContext;
+  availability?: OchreLicense;
   identification: OchreIdentification;
   description?: OchreStringContent;
+  startDate?: OchrePeriodBoundary;
+  endDate?: OchrePeriodBoundary;
+  notes?: { note: OchreNote | Array<OchreNote> };
+  links?: OchreLink | Array<OchreLink>;
+  properties?: { property: OchreProperty | Array<OchreProperty> };
+};
+
+/**
+ * Raw period boundary structure corresponding to the parsed PeriodBoundary type
+ */
+export type OchrePeriodBoundary = {
+  year: number; // Negative for BCE
+  month?: number;
+  day?: number;
 };
 
 /**
@@ -500,8 +525,16 @@ export type OchrePerson = {
   publicationDateTime?: string; // YYYY-MM-DDThh:mm:ssZ
   type?: string;
   date?: string; // YYYY-MM-DD
+  context?: OchreContext;
+  availability?: OchreLicense;
   identification?: OchreIdentification;
   content?: FakeString | null;
+  description?: OchreStringContent;
+  notes?: { note: OchreNote | Array<OchreNote> };
+  events?: { event: OchreEvent | Array<OchreEvent> };
+  periods?: { period: OchrePeriod | Array<OchrePeriod> };
+  links?: OchreLink | Array<OchreLink>;
+  properties?: { property: OchreProperty | Array<OchreProperty> };
 };
 
 /**
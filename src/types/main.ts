@@ -2,6 +2,9 @@ import type { Language } from "iso-639-3";
 
 /**
  * Represents the core data structure containing item information and metadata
+ *
+ * @remarks
+ * `item` is discriminated on `variant`, so its category can be narrowed with a `switch` on `item.variant`.
  */
 export type Data = {
   uuid: string;
@@ -11,15 +14,29 @@ export type Data = {
   };
   publicationDateTime: Date;
   metadata: Metadata;
-  item: Tree | Set | Resource | SpatialUnit | Concept;
+  item:
+    | Tree
+    | Set
+    | Resource
+    | SpatialUnit
+    | Concept
+    | Bibliography
+    | Person
+    | Period;
 };
 
+/**
+ * String available in several languages, keyed by ISO 639-3 language code, e.g. `{ eng: "Vase", ita: "Vaso" }`
+ */
+export type LocalizedString = Record<string, string>;
+
 /**
  * Basic identification information used across multiple types
  */
 export type Identification = {
   label: string;
   abbreviation: string;
+  localized?: { label: LocalizedString; abbreviation: LocalizedString }; // Only set when parsing with `localized: true`
 };
 
 /**
@@ -79,14 +96,29 @@ export type License = {
 
 /**
  * Represents a person (author, creator, etc.) with their identification and metadata
+ *
+ * @remarks
+ * Persons nested in other items (e.g. authors or creators) are link stubs, so
+ * their full record fields are empty. Use `fetchPerson` to get the full record.
  */
 export type Person = {
   uuid: string;
+  variant: "person";
   publicationDateTime: Date | null;
   type: string | null;
   date: Date | null;
+  context: Context | null;
+  license: License | null;
   identification: Identification | null;
+  names: LocalizedString;
   content: string | null;
+  description: string | null;
+  notes: Array<Note>;
+  events: Array<Event>;
+  periods: Array<Period>;
+  links: Array<Link>;
+  properties: Array<Property>;
+  localized?: { description: LocalizedString }; // Only set when parsing with `localized: true`
 };
 
 /**
@@ -96,6 +128,8 @@ export type Note = {
   number: number;
   title: string | null;
   content: string;
+  richText?: RichTextRoot; // Only set when parsing with `richText: true`
+  localized?: { title: LocalizedString; content: LocalizedString }; // Only set when parsing with `localized: true`
 };
 
 /**
@@ -207,6 +241,8 @@ export type Interpretation = {
 export type Document = {
   content: string;
   footnotes: Array<Footnote>;
+  richText?: RichTextRoot; // Only set when parsing with `richText: true`
+  localized?: { content: LocalizedString }; // Only set when parsing with `localized: true`
 };
 
 /**
@@ -214,8 +250,102 @@ export type Document = {
  */
 export type Footnote = {
   uuid: string;
+  number: number; // Position of the footnote in document order, starting at 1
   label: string;
-  content: string;
+  content: string; // Empty unless resolved, see `resolveDocumentFootnotes`
+};
+
+/**
+ * Formatting mark applied to a run of rich text
+ *
+ * @remarks
+ * Render options unknown to the library are kept as generic marks, rendered with a `data-rend` attribute.
+ */
+export type RichTextMark =
+  | "bold"
+  | "italic"
+  | "underline"
+  | "superscript"
+  | "subscript"
+  | "strikethrough"
+  | "smallCaps"
+  | (string & Record<never, never>);
+
+/**
+ * Represents a run of text sharing the same formatting marks
+ */
+export type RichTextText = {
+  type: "text";
+  value: string;
+  marks: Array<RichTextMark>;
+};
+
+/**
+ * Represents a line break
+ */
+export type RichTextBreak = {
+  type: "break";
+  standalone: boolean; // Whether the break is a whitespace item of its own, rendered as a Markdown hard line break instead of `<br />`
+};
+
+/**
+ * Represents a link to an OCHRE item, a URL or an email address
+ */
+export type RichTextLink = {
+  type: "link";
+  variant:
+    | "resource"
+    | "concept"
+    | "set"
+    | "person"
+    | "bibliography"
+    | "url"
+    | "email";
+  uuid: string | null; // UUID of the linked item, null for URLs and email addresses
+  itemType: string | null; // Type of the linked item, e.g. "image", "internalDocument" or "externalDocument" for resources
+  url: string | null; // Null if the linked item is not published, e.g. rendered as a tooltip
+  title: string | null; // Description of the linked item, e.g. shown as a tooltip
+  children: Array<RichTextText>;
+};
+
+/**
+ * Represents an image displayed inline with the text
+ */
+export type RichTextImage = {
+  type: "image";
+  uuid: string;
+  url: string; // URL of the image file
+  alt: string | null;
+  width: number | null;
+  height: number | null;
+};
+
+/**
+ * Represents a reference to a footnote of the document
+ */
+export type RichTextFootnoteReference = {
+  type: "footnoteReference";
+  identifier: string; // UUID of the footnote
+  label: string | null;
+  title: string | null;
+};
+
+/**
+ * Union of all rich text nodes, discriminated on `type`
+ */
+export type RichTextNode =
+  | RichTextText
+  | RichTextBreak
+  | RichTextLink
+  | RichTextImage
+  | RichTextFootnoteReference;
+
+/**
+ * Root of a rich text tree, following the mdast node names where they exist
+ */
+export type RichTextRoot = {
+  type: "root";
+  children: Array<RichTextNode>;
 };
 
 /**
@@ -246,6 +376,7 @@ export type Resource = {
   properties: Array<Property>;
   citedBibliographies: Array<Bibliography>;
   resources: Array<NestedResource>;
+  localized?: { description: LocalizedString }; // Only set when parsing with `localized: true`
 };
 
 /**
@@ -273,6 +404,7 @@ export type SpatialUnit = {
   coordinates: Coordinates | null;
   observations: Array<Observation>;
   events: Array<Event>;
+  localized?: { description: LocalizedString }; // Only set when parsing with `localized: true`
 };
 
 /**
@@ -325,6 +457,7 @@ export type Set = {
     concepts: Array<NestedConcept>;
     periods: Array<Period>;
   };
+  localized?: { description: LocalizedString }; // Only set when parsing with `localized: true`
 };
 
 /**
@@ -332,6 +465,7 @@ export type Set = {
  */
 export type Bibliography = {
   uuid: string;
+  variant: "bibliography";
   publicationDateTime: Date | null;
   type: string | null;
   number: number | null;
@@ -364,14 +498,37 @@ export type Bibliography = {
 
 /**
  * Represents a time period with identification
+ *
+ * @remarks
+ * Periods nested in other items are link stubs, so their full record fields
+ * are empty. Use `fetchPeriod` to get the full record.
  */
 export type Period = {
   uuid: string;
+  variant: "period";
   publicationDateTime: Date | null;
   type: string | null;
   number: number | null;
+  context: Context | null;
+  license: License | null;
   identification: Identification;
+  names: LocalizedString;
   description: string | null;
+  start: PeriodBoundary | null;
+  end: PeriodBoundary | null;
+  notes: Array<Note>;
+  links: Array<Link>;
+  properties: Array<Property>;
+  localized?: { description: LocalizedString }; // Only set when parsing with `localized: true`
+};
+
+/**
+ * Represents the start or end of a period
+ */
+export type PeriodBoundary = {
+  year: number; // Negative for BCE
+  month: number | null;
+  day: number | null;
 };
 
 /**
@@ -387,15 +544,37 @@ export type PropertyValueType =
   | "time"
   | "IDREF";
 
+/**
+ * Item referenced by an IDREF property value
+ */
+export type PropertyValueReference = {
+  uuid: string;
+  label: string;
+  url: string;
+};
+
+/**
+ * Property value coerced to the JavaScript type matching its declared type, discriminated on `type`
+ *
+ * @remarks
+ * `value` is null when the content does not match the declared type, which is reported as a diagnostic in lenient mode and fails the parse in strict mode.
+ */
+export type TypedPropertyValue =
+  | { type: "string"; value: string }
+  | { type: "number" | "integer"; value: number | null }
+  | { type: "boolean"; value: boolean | null }
+  | { type: "date" | "dateTime" | "time"; value: Date | null }
+  | { type: "IDREF"; value: PropertyValueReference | null };
+
 /**
  * Represents a property value with type information
  */
-export type PropertyValue = {
+export type PropertyValue = TypedPropertyValue & {
   content: string;
-  type: PropertyValueType;
   category: string | null;
   uuid: string | null;
   publicationDateTime: Date | null;
+  localized?: { content: LocalizedString }; // Only set when parsing with `localized: true`
 };
 
 /**
@@ -406,6 +585,7 @@ export type Property = {
   values: Array<PropertyValue>;
   comment: string | null;
   properties: Array<Property>;
+  localized?: { label: LocalizedString }; // Only set when parsing with `localized: true`
 };
 
 /**
@@ -0,0 +1,136 @@
+import type { OchreData } from "../types/internal.raw.d.ts";
+
+/**
+ * Cached raw OCHRE response along with the data used to revalidate it
+ */
+export type OchreCacheEntry = {
+  uuid: string;
+  publicationDateTime: string; // YYYY-MM-DDThh:mm:ssZ
+  cachedAt: number; // Unix timestamp in milliseconds
+  data: OchreData;
+};
+
+/**
+ * Store used to cache raw OCHRE responses, keyed by the base URL and UUID of the item,
+ * e.g. `https://ochre.lib.uchicago.edu/ochre#27adf18a-21ad-442b-b186-0c7f3b8cb2d1`
+ *
+ * @remarks
+ * Implement this type to plug in a custom store (e.g. Redis or a KV namespace).
+ * Methods may be synchronous or return promises.
+ */
+export type OchreCache = {
+  get: (
+    key: string,
+  ) => OchreCacheEntry | null | Promise<OchreCacheEntry | null>;
+  set: (key: string, entry: OchreCacheEntry) => void | Promise<void>;
+  delete: (key: string) => void | Promise<void>;
+  clear: () => void | Promise<void>;
+};
+
+/**
+ * Creates an in-memory cache that evicts the least recently used entries
+ *
+ * @param options - Cache options
+ * @param options.maxEntries - Maximum number of entries kept in memory (defaults to 500)
+ * @returns In-memory LRU cache
+ *
+ * @example
+ * ```ts
+ * const client = createOchreClient({ cache: createMemoryCache({ maxEntries: 100 }) });
+ * ```
+ */
+export function createMemoryCache(
+  options: { maxEntries?: number } = {},
+): OchreCache {
+  const maxEntries = options.maxEntries ?? 500;
+  const entries = new Map<string, OchreCacheEntry>();
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+
+      // Re-insert the entry to mark it as most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+
+      return entry;
+    },
+    set: (key, entry) => {
+      entries.delete(key);
+      entries.set(key, entry);
+
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) {
+          break;
+        }
+
+        entries.delete(oldestKey);
+      }
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+    clear: () => {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * Creates a cache that stores entries as JSON files in a directory
+ *
+ * @param options - Cache options
+ * @param options.directory - Directory the cache files are written to
+ * @returns File system cache
+ *
+ * @example
+ * ```ts
+ * const client = createOchreClient({
+ *   cache: createFileSystemCache({ directory: ".cache/ochre" }),
+ * });
+ * ```
+ *
+ * @remarks
+ * Only available in runtimes that provide `node:fs`, such as Node.js, Bun and Deno.
+ */
+export function createFileSystemCache(options: {
+  directory: string;
+}): OchreCache {
+  const { directory } = options;
+
+  const getFilePath = (key: string) =>
+    `${directory.replace(/\/+$/, "")}/${encodeURIComponent(key)}.json`;
+
+  return {
+    get: async (key) => {
+      const { readFile } = await import("node:fs/promises");
+
+      try {
+        const file = await readFile(getFilePath(key), "utf8");
+        return JSON.parse(file) as OchreCacheEntry;
+      } catch {
+        return null;
+      }
+    },
+    set: async (key, entry) => {
+      const { mkdir, writeFile } = await import("node:fs/promises");
+
+      await mkdir(directory, { recursive: true });
+      await writeFile(getFilePath(key), JSON.stringify(entry), "utf8");
+    },
+    delete: async (key) => {
+      const { rm } = await import("node:fs/promises");
+
+      await rm(getFilePath(key), { force: true });
+    },
+    clear: async () => {
+      const { rm } = await import("node:fs/promises");
+
+      await rm(directory, { recursive: true, force: true });
+    },
+  };
+}
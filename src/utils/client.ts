@@ -0,0 +1,173 @@
+import type { OchreClientConfig, OchreClientOptions } from "./config.js";
+import type { OchrePageOptions } from "./fetchers/pages.js";
+import { getItemUrl, resolveClientOptions } from "./config.js";
+import { fetchBibliography } from "./fetchers/bibliography.js";
+import { fetchConcept } from "./fetchers/concept.js";
+import { resolveDocumentFootnotes } from "./fetchers/footnotes.js";
+import { fetchByUuid, fetchManyByUuid } from "./fetchers/generic.js";
+import { fetchItem, fetchItems } from "./fetchers/items.js";
+import {
+  fetchSetPage,
+  fetchTreePage,
+  iterateSet,
+  iterateTree,
+} from "./fetchers/pages.js";
+import { fetchPeriod } from "./fetchers/period.js";
+import { fetchPerson } from "./fetchers/person.js";
+import { queryItems } from "./fetchers/query.js";
+import { fetchResource } from "./fetchers/resource.js";
+import { fetchSet } from "./fetchers/set.js";
+import { fetchSpatialUnit } from "./fetchers/spatial-unit.js";
+import { fetchTree } from "./fetchers/tree.js";
+import { fetchWebsite } from "./fetchers/website.js";
+import { createRequestQueue } from "./queue.js";
+
+/**
+ * Client bound to a single OCHRE configuration, exposing all fetchers as methods
+ */
+export type OchreClient = {
+  config: OchreClientConfig;
+  getItemUrl: (uuid: string, mode?: "load" | "preview") => string;
+  fetchByUuid: (
+    uuid: string,
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof fetchByUuid>;
+  fetchManyByUuid: (
+    uuids: Array<string>,
+    options?: OchreClientOptions & { batchSize?: number },
+  ) => ReturnType<typeof fetchManyByUuid>;
+  fetchItem: (
+    uuid: string,
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof fetchItem>;
+  fetchItems: (
+    uuids: Array<string>,
+    options?: OchreClientOptions & { batchSize?: number },
+  ) => ReturnType<typeof fetchItems>;
+  fetchResource: (
+    uuid: string,
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof fetchResource>;
+  fetchSet: (
+    uuid: string,
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof fetchSet>;
+  fetchTree: (
+    uuid: string,
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof fetchTree>;
+  fetchSpatialUnit: (
+    uuid: string,
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof fetchSpatialUnit>;
+  fetchConcept: (
+    uuid: string,
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof fetchConcept>;
+  fetchBibliography: (
+    uuid: string,
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof fetchBibliography>;
+  fetchPerson: (
+    uuid: string,
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof fetchPerson>;
+  fetchPeriod: (
+    uuid: string,
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof fetchPeriod>;
+  fetchTreePage: (
+    uuid: string,
+    options?: OchrePageOptions,
+  ) => ReturnType<typeof fetchTreePage>;
+  fetchSetPage: (
+    uuid: string,
+    options?: OchrePageOptions,
+  ) => ReturnType<typeof fetchSetPage>;
+  iterateTree: (
+    uuid: string,
+    options?: OchrePageOptions,
+  ) => ReturnType<typeof iterateTree>;
+  iterateSet: (
+    uuid: string,
+    options?: OchrePageOptions,
+  ) => ReturnType<typeof iterateSet>;
+  queryItems: (
+    query: Parameters<typeof queryItems>[0],
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof queryItems>;
+  fetchWebsite: (
+    abbreviation: string,
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof fetchWebsite>;
+  resolveDocumentFootnotes: (
+    document: Parameters<typeof resolveDocumentFootnotes>[0],
+    options?: OchreClientOptions,
+  ) => ReturnType<typeof resolveDocumentFootnotes>;
+};
+
+/**
+ * Creates an OCHRE client carrying a base URL, `fetch` implementation, default language and headers
+ *
+ * @param options - Client options; anything omitted falls back to the production OCHRE API defaults
+ * @returns Client exposing all fetchers as methods
+ *
+ * @example
+ * ```ts
+ * const client = createOchreClient({
+ *   baseUrl: "http://localhost:8080/ochre",
+ *   language: "ita",
+ * });
+ * const result = await client.fetchResource("123e4567-e89b-12d3-a456-426614174000");
+ * ```
+ *
+ * @remarks
+ * Options passed to a method are merged over the client options for that call only.
+ * A `concurrency` passed to a method limits the requests of that call on a queue of
+ * their own, instead of the queue of the client.
+ */
+export function createOchreClient(
+  options: OchreClientOptions = {},
+): OchreClient {
+  const config = resolveClientOptions(options);
+
+  const withConfig = (callOptions: OchreClientOptions = {}) => ({
+    ...config,
+    ...callOptions,
+    headers: { ...config.headers, ...callOptions.headers },
+    queue:
+      callOptions.queue ??
+      (callOptions.concurrency != null ?
+        createRequestQueue(callOptions.concurrency)
+      : config.queue),
+  });
+
+  return {
+    config,
+    getItemUrl: (uuid, mode) => getItemUrl(uuid, config.baseUrl, mode),
+    fetchByUuid: (uuid, options) => fetchByUuid(uuid, withConfig(options)),
+    fetchManyByUuid: (uuids, options) =>
+      fetchManyByUuid(uuids, withConfig(options)),
+    fetchItem: (uuid, options) => fetchItem(uuid, withConfig(options)),
+    fetchItems: (uuids, options) => fetchItems(uuids, withConfig(options)),
+    fetchResource: (uuid, options) => fetchResource(uuid, withConfig(options)),
+    fetchSet: (uuid, options) => fetchSet(uuid, withConfig(options)),
+    fetchTree: (uuid, options) => fetchTree(uuid, withConfig(options)),
+    fetchSpatialUnit: (uuid, options) =>
+      fetchSpatialUnit(uuid, withConfig(options)),
+    fetchConcept: (uuid, options) => fetchConcept(uuid, withConfig(options)),
+    fetchBibliography: (uuid, options) =>
+      fetchBibliography(uuid, withConfig(options)),
+    fetchPerson: (uuid, options) => fetchPerson(uuid, withConfig(options)),
+    fetchPeriod: (uuid, options) => fetchPeriod(uuid, withConfig(options)),
+    fetchTreePage: (uuid, options) => fetchTreePage(uuid, withConfig(options)),
+    fetchSetPage: (uuid, options) => fetchSetPage(uuid, withConfig(options)),
+    iterateTree: (uuid, options) => iterateTree(uuid, withConfig(options)),
+    iterateSet: (uuid, options) => iterateSet(uuid, withConfig(options)),
+    queryItems: (query, options) => queryItems(query, withConfig(options)),
+    fetchWebsite: (abbreviation, options) =>
+      fetchWebsite(abbreviation, withConfig(options)),
+    resolveDocumentFootnotes: (document, options) =>
+      resolveDocumentFootnotes(document, withConfig(options)),
+  };
+}
@@ -0,0 +1,295 @@
+import type { Identification, Period, Property } from "../types/main.js";
+import type { PropertyQuery } from "./getters.js";
+import { queryProperties } from "./getters.js";
+
+/**
+ * Item that can be queried as part of a collection, e.g. the resources, spatial units or concepts of a set or tree
+ */
+export type CollectionItem = {
+  uuid: string;
+  identification: Identification | null;
+  type?: string | null;
+  number?: number | null;
+  date?: Date | null;
+  properties?: Array<Property>;
+  periods?: Array<Period>;
+};
+
+/**
+ * Filter selecting collection items, combined with `and`, `or` and `not`
+ */
+export type CollectionFilter =
+  | { and: Array<CollectionFilter> }
+  | { or: Array<CollectionFilter> }
+  | { not: CollectionFilter }
+  /** Items with a property matching the label path or property query, see `queryProperties` */
+  | { property: string | PropertyQuery }
+  /** Items whose label contains the given string, case-insensitive */
+  | { label: string }
+  /** Items of the given type, or of any of the given types */
+  | { type: string | Array<string> }
+  /** Items dated within the given inclusive bounds */
+  | { date: { min?: Date; max?: Date } }
+  /** Items assigned to the period with the given UUID or label */
+  | { period: string };
+
+/**
+ * Key collection items are sorted by
+ */
+export type CollectionSort = {
+  /** Item field to sort by, or label path of the property whose first value is used */
+  by: "label" | "number" | "type" | "date" | { property: string };
+  /** Sort direction (defaults to "asc") */
+  direction?: "asc" | "desc";
+};
+
+/**
+ * Query over a collection of items
+ */
+export type CollectionQuery = {
+  filter?: CollectionFilter;
+  /** Label paths of the properties to compute facet counts for, e.g. ["Period", "Material"] */
+  facets?: Array<string>;
+  /** Sort keys, in order of precedence */
+  sort?: CollectionSort | Array<CollectionSort>;
+  /** Number of matching items to skip (defaults to 0) */
+  offset?: number;
+  /** Maximum number of matching items to return (defaults to all) */
+  limit?: number;
+};
+
+/**
+ * Number of matching items having a property value
+ */
+export type CollectionFacetValue = {
+  value: string;
+  count: number;
+};
+
+/**
+ * Result of a collection query
+ */
+export type CollectionResult<T extends CollectionItem> = {
+  items: Array<T>; // Matching items of the requested page
+  total: number; // Number of matching items across all pages
+  facets: Record<string, Array<CollectionFacetValue>>; // Facet values by label path, most frequent first
+};
+
+/**
+ * Checks whether a collection item matches a filter
+ *
+ * @param item - Item to check
+ * @param filter - Filter to match
+ * @returns True if the item matches the filter
+ * @internal
+ */
+function isMatchingFilter(
+  item: CollectionItem,
+  filter: CollectionFilter,
+): boolean {
+  if ("and" in filter) {
+    return filter.and.every((filter) => isMatchingFilter(item, filter));
+  }
+  if ("or" in filter) {
+    return filter.or.some((filter) => isMatchingFilter(item, filter));
+  }
+  if ("not" in filter) {
+    return !isMatchingFilter(item, filter.not);
+  }
+  if ("property" in filter) {
+    return queryProperties(item.properties ?? [], filter.property).length > 0;
+  }
+  if ("label" in filter) {
+    return (item.identification?.label ?? "")
+      .toLocaleLowerCase("en-US")
+      .includes(filter.label.toLocaleLowerCase("en-US"));
+  }
+  if ("type" in filter) {
+    const types = Array.isArray(filter.type) ? filter.type : [filter.type];
+    return item.type != null && types.includes(item.type);
+  }
+  if ("date" in filter) {
+    if (item.date == null) {
+      return false;
+    }
+
+    const time = item.date.getTime();
+    return (
+      (filter.date.min === undefined || time >= filter.date.min.getTime()) &&
+      (filter.date.max === undefined || time <= filter.date.max.getTime())
+    );
+  }
+
+  const periodLabel = filter.period.toLocaleLowerCase("en-US");
+  return (item.periods ?? []).some(
+    (period) =>
+      period.uuid === filter.period ||
+      period.identification.label.toLocaleLowerCase("en-US") === periodLabel,
+  );
+}
+
+/**
+ * Returns the value a collection item is sorted by
+ *
+ * @param item - Item to get the sort value of
+ * @param by - Sort key
+ * @returns Sort value, or null if the item has none
+ * @internal
+ */
+function getSortValue(
+  item: CollectionItem,
+  by: CollectionSort["by"],
+): string | number | null {
+  switch (by) {
+    case "label": {
+      return item.identification?.label ?? null;
+    }
+    case "number": {
+      return item.number ?? null;
+    }
+    case "type": {
+      return item.type ?? null;
+    }
+    case "date": {
+      return item.date?.getTime() ?? null;
+    }
+    default: {
+      const value = queryProperties(item.properties ?? [], by.property)[0]
+        ?.values[0];
+      if (!value) {
+        return null;
+      }
+
+      return (
+        typeof value.value === "number" ? value.value
+        : value.value instanceof Date ? value.value.getTime()
+        : value.content
+      );
+    }
+  }
+}
+
+/**
+ * Compares two sort values, sorting missing values last in either direction
+ *
+ * @param a - First sort value
+ * @param b - Second sort value
+ * @param direction - Sort direction of the values that are present
+ * @returns Negative if `a` comes first, positive if `b` comes first, 0 if equal
+ * @internal
+ */
+function compareSortValues(
+  a: string | number | null,
+  b: string | number | null,
+  direction: "asc" | "desc",
+): number {
+  if (a === null || b === null) {
+    return (
+      a === b ? 0
+      : a === null ? 1
+      : -1
+    );
+  }
+
+  const comparison =
+    typeof a === "number" && typeof b === "number" ?
+      a - b
+    : String(a).localeCompare(String(b), "en-US", { numeric: true });
+
+  return direction === "desc" ? -comparison : comparison;
+}
+
+/**
+ * Filters, facets, sorts and pages a collection of items, e.g. the resources of a set
+ *
+ * @param items - Items to query
+ * @param query - Filter, facets, sort keys and page of the query
+ * @returns Matching items of the requested page, total number of matching items and facet counts
+ *
+ * @example
+ * ```ts
+ * const { items, total, facets } = queryCollection(set.items.resources, {
+ *   filter: {
+ *     and: [
+ *       { property: { path: "Period", value: "Iron Age" } },
+ *       { property: { path: "Material", value: "*bronze*" } },
+ *     ],
+ *   },
+ *   facets: ["Material"],
+ *   sort: { by: "number" },
+ *   limit: 20,
+ * });
+ * ```
+ *
+ * @remarks
+ * Facet counts are computed over all matching items, before paging.
+ */
+export function queryCollection<T extends CollectionItem>(
+  items: Array<T>,
+  query: CollectionQuery = {},
+): CollectionResult<T> {
+  const { filter } = query;
+  const matchingItems =
+    filter ? items.filter((item) => isMatchingFilter(item, filter)) : items;
+
+  const facets: Record<string, Array<CollectionFacetValue>> = {};
+  for (const path of query.facets ?? []) {
+    const counts = new Map<string, number>();
+    for (const item of matchingItems) {
+      const itemValues = new Set<string>();
+      for (const match of queryProperties(item.properties ?? [], path)) {
+        for (const value of match.values) {
+          itemValues.add(value.content);
+        }
+      }
+
+      for (const value of itemValues) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+
+    facets[path] = [...counts]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+
+  const sortKeys =
+    query.sort === undefined ? []
+    : Array.isArray(query.sort) ? query.sort
+    : [query.sort];
+  const sortedItems =
+    sortKeys.length > 0 ?
+      // Sort values are read once per item, as property paths are costly to query
+      matchingItems
+        .map((item) => ({
+          item,
+          values: sortKeys.map(({ by }) => getSortValue(item, by)),
+        }))
+        .sort((a, b) => {
+          for (const [index, { direction = "asc" }] of sortKeys.entries()) {
+            const comparison = compareSortValues(
+              a.values[index] ?? null,
+              b.values[index] ?? null,
+              direction,
+            );
+            if (comparison !== 0) {
+              return comparison;
+            }
+          }
+
+          return 0;
+        })
+        .map(({ item }) => item)
+    : matchingItems;
+
+  const offset = query.offset ?? 0;
+
+  return {
+    items: sortedItems.slice(
+      offset,
+      query.limit !== undefined ? offset + query.limit : undefined,
+    ),
+    total: matchingItems.length,
+    facets,
+  };
+}
@@ -0,0 +1,181 @@
+import type { OchreCache } from "./cache.js";
+import type { OchreDiagnostic } from "./diagnostics.js";
+import type { RequestQueue } from "./queue.js";
+import type { MdxRenderOptions } from "./render.js";
+import { createRequestQueue, DEFAULT_REQUEST_QUEUE } from "./queue.js";
+
+/**
+ * Default OCHRE API endpoint
+ */
+export const DEFAULT_BASE_URL = "https://ochre.lib.uchicago.edu/ochre";
+
+/**
+ * Global `fetch`, looked up on every call so that it can be replaced, e.g. by a mock in tests
+ * @internal
+ */
+const defaultFetch: typeof fetch = (input, init) => fetch(input, init);
+
+/**
+ * Language code, or language codes in order of preference, e.g. `["ita", "eng"]`
+ *
+ * @remarks
+ * Content missing in every preferred language falls back to its first available translation.
+ */
+export type LanguagePreference = string | Array<string>;
+
+/**
+ * Options for configuring how OCHRE data is fetched
+ */
+export type OchreClientOptions = {
+  /** Base URL of the OCHRE API endpoint, e.g. a staging mirror */
+  baseUrl?: string;
+  /** Custom `fetch` implementation, e.g. a mock in tests */
+  fetch?: typeof fetch;
+  /** Default language code, or chain of language codes, used for content selection (defaults to "eng") */
+  language?: LanguagePreference;
+  /** Keep every language of multilingual strings in `localized` maps, see `resolveLocalizedString` (defaults to false) */
+  localized?: boolean;
+  /** Keep the rich text tree of documents and notes in `richText`, see `renderMdx` (defaults to false) */
+  richText?: boolean;
+  /** Component names and URL resolvers by link variant used to render documents and notes as MDX, see `renderMdx` */
+  mdx?: MdxRenderOptions;
+  /** Fetch the contents of document footnotes, see `resolveDocumentFootnotes` (defaults to false) */
+  resolveFootnotes?: boolean;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  /** Signal used to cancel the request */
+  signal?: AbortSignal | null;
+  /** Timeout of a single request attempt, in milliseconds */
+  timeout?: number | null;
+  /** Number of retries on 5xx responses and network errors (defaults to 0) */
+  retries?: number;
+  /** Base delay before the first retry, in milliseconds, doubled on every further retry (defaults to 500) */
+  retryDelay?: number;
+  /** Store used to cache raw responses, see `createMemoryCache` and `createFileSystemCache` */
+  cache?: OchreCache | null;
+  /** Time during which cached entries are served without revalidation, in milliseconds (defaults to 0) */
+  cacheTtl?: number;
+  /** Maximum number of requests running at once (defaults to no limit) */
+  concurrency?: number;
+  /** Queue shared between calls, used to limit concurrency and coalesce identical requests made with the same settings */
+  queue?: RequestQueue;
+  /** Validate raw responses against the OCHRE schemas, failing with the JSON path of each violation, and fail on property values not matching their declared type (defaults to false) */
+  strict?: boolean;
+  /** Collector of parse diagnostics; when set, broken nodes are skipped and reported here instead of failing the whole item, see `withDiagnostics` */
+  diagnostics?: Array<OchreDiagnostic> | null;
+};
+
+/**
+ * Options threaded through the parsers
+ */
+export type ParseOptions = {
+  /** Base URL used to build links to OCHRE items */
+  baseUrl: string;
+  /** Language code, or chain of language codes, used for content selection */
+  language: LanguagePreference;
+  /** Keep every language of multilingual strings in `localized` maps */
+  localized?: boolean;
+  /** Keep the rich text tree of documents and notes in `richText` */
+  richText?: boolean;
+  /** Component names and URL resolvers by link variant used to render documents and notes as MDX */
+  mdx?: MdxRenderOptions;
+  /** Fail on property values not matching their declared type, unless diagnostics are collected */
+  strict?: boolean;
+  /** Collector of parse diagnostics, enabling lenient parsing when set */
+  diagnostics?: Array<OchreDiagnostic> | null;
+  /** UUID of the item being parsed, used to locate diagnostics */
+  itemUuid?: string | null;
+  /** Path of the node being parsed within its item, used to locate diagnostics */
+  path?: Array<string | number>;
+};
+
+/**
+ * Fully resolved client configuration
+ */
+export type OchreClientConfig = ParseOptions & {
+  fetch: typeof fetch;
+  headers: Record<string, string>;
+  signal: AbortSignal | null;
+  timeout: number | null;
+  retries: number;
+  retryDelay: number;
+  cache: OchreCache | null;
+  cacheTtl: number;
+  queue: RequestQueue;
+  localized: boolean;
+  richText: boolean;
+  mdx: MdxRenderOptions;
+  resolveFootnotes: boolean;
+  strict: boolean;
+  diagnostics: Array<OchreDiagnostic> | null;
+};
+
+/**
+ * Default parse options, pointing at the production OCHRE API
+ */
+export const DEFAULT_PARSE_OPTIONS: ParseOptions = {
+  baseUrl: DEFAULT_BASE_URL,
+  language: "eng",
+};
+
+/**
+ * Resolves client options into a full client configuration, filling in defaults
+ *
+ * @param options - Client options to resolve
+ * @returns Resolved client configuration
+ *
+ * @example
+ * ```ts
+ * const config = resolveClientOptions({ baseUrl: "http://localhost:8080/ochre" });
+ * console.log(config.language); // "eng"
+ * ```
+ */
+export function resolveClientOptions(
+  options: OchreClientOptions = {},
+): OchreClientConfig {
+  return {
+    baseUrl: (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, ""),
+    fetch: options.fetch ?? defaultFetch,
+    language: options.language ?? DEFAULT_PARSE_OPTIONS.language,
+    localized: options.localized ?? false,
+    richText: options.richText ?? false,
+    mdx: options.mdx ?? {},
+    resolveFootnotes: options.resolveFootnotes ?? false,
+    headers: options.headers ?? {},
+    signal: options.signal ?? null,
+    timeout: options.timeout ?? null,
+    retries: options.retries ?? 0,
+    retryDelay: options.retryDelay ?? 500,
+    cache: options.cache ?? null,
+    cacheTtl: options.cacheTtl ?? 0,
+    queue:
+      options.queue ??
+      (options.concurrency != null ?
+        createRequestQueue(options.concurrency)
+      : DEFAULT_REQUEST_QUEUE),
+    strict: options.strict ?? false,
+    diagnostics: options.diagnostics ?? null,
+  };
+}
+
+/**
+ * Builds the URL of an OCHRE item
+ *
+ * @param uuid - The UUID of the item
+ * @param baseUrl - Base URL of the OCHRE API endpoint
+ * @param mode - Optional mode appended to the URL ("load" for the full file, "preview" for a preview image)
+ * @returns The URL of the item
+ *
+ * @example
+ * ```ts
+ * getItemUrl("123e4567-e89b-12d3-a456-426614174000", DEFAULT_BASE_URL, "load");
+ * // Returns: "https://ochre.lib.uchicago.edu/ochre?uuid=123e4567-e89b-12d3-a456-426614174000&load"
+ * ```
+ */
+export function getItemUrl(
+  uuid: string,
+  baseUrl = DEFAULT_BASE_URL,
+  mode?: "load" | "preview",
+): string {
+  return `${baseUrl}?uuid=${uuid}${mode != null ? `&${mode}` : ""}`;
+}
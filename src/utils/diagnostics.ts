@@ -0,0 +1,178 @@
+import type { ParseOptions } from "./config.js";
+
+/**
+ * Problem found in the raw OCHRE data while parsing in lenient mode
+ */
+export type OchreDiagnostic = {
+  uuid: string | null; // UUID of the item containing the broken node, if known
+  path: Array<string | number>; // Path of the broken node within the item, e.g. ["properties", 2, "properties", 0]
+  message: string;
+};
+
+/**
+ * Result of a lenient parse: the parsed data along with the diagnostics collected while parsing it
+ */
+export type OchreParseResult<T> = {
+  data: T;
+  diagnostics: Array<OchreDiagnostic>;
+};
+
+/**
+ * Whether parsers keep track of the item and path of the node being parsed, to locate diagnostics and strict mode errors
+ *
+ * @param options - Parse options
+ * @returns True in lenient or strict mode
+ * @internal
+ */
+function isLocatingNodes(options: ParseOptions): boolean {
+  return options.diagnostics != null || options.strict === true;
+}
+
+/**
+ * Returns the parse options used to parse the content of an item, locating diagnostics at the root of that item
+ *
+ * @param options - Parse options of the parent
+ * @param uuid - UUID of the item about to be parsed
+ * @returns Parse options for the content of the item
+ * @internal
+ */
+export function getItemParseOptions<T extends ParseOptions>(
+  options: T,
+  uuid: string,
+): T {
+  if (!isLocatingNodes(options)) {
+    return options;
+  }
+
+  return { ...options, itemUuid: uuid, path: [] };
+}
+
+/**
+ * Returns the parse options used to parse a child node, appending its path to the current path
+ *
+ * @param options - Parse options of the parent
+ * @param path - Path of the child node, relative to the parent
+ * @returns Parse options for the child node
+ * @internal
+ */
+export function getNodeParseOptions<T extends ParseOptions>(
+  options: T,
+  path: Array<string | number>,
+): T {
+  if (!isLocatingNodes(options)) {
+    return options;
+  }
+
+  return { ...options, path: [...(options.path ?? []), ...path] };
+}
+
+/**
+ * Records a diagnostic in the collector of the parse options
+ *
+ * @param options - Parse options holding the diagnostics collector
+ * @param path - Path of the broken node, relative to the current path
+ * @param error - Error thrown while parsing the node
+ * @internal
+ */
+export function addDiagnostic(
+  options: ParseOptions,
+  path: Array<string | number>,
+  error: unknown,
+): void {
+  options.diagnostics?.push({
+    uuid: options.itemUuid ?? null,
+    path: [...(options.path ?? []), ...path],
+    message: error instanceof Error ? error.message : "Unknown error",
+  });
+}
+
+/**
+ * Parses a single node, skipping it and recording a diagnostic in lenient mode instead of throwing
+ *
+ * @param parse - Function parsing the node, given the parse options of the node
+ * @param options - Parse options of the parent
+ * @param path - Path of the node, relative to the parent
+ * @returns The parsed node, or null if it could not be parsed in lenient mode
+ * @internal
+ */
+export function parseNode<T, O extends ParseOptions>(
+  parse: (options: O) => T,
+  options: O,
+  path: Array<string | number>,
+): T | null {
+  if (options.diagnostics == null) {
+    return parse(getNodeParseOptions(options, path));
+  }
+
+  try {
+    return parse(getNodeParseOptions(options, path));
+  } catch (error) {
+    addDiagnostic(options, path, error);
+    return null;
+  }
+}
+
+/**
+ * Asynchronous variant of `parseNode`, used by the website parsers
+ *
+ * @param parse - Function parsing the node, given the parse options of the node
+ * @param options - Parse options of the parent
+ * @param path - Path of the node, relative to the parent
+ * @returns The parsed node, or null if it could not be parsed in lenient mode
+ * @internal
+ */
+export async function parseNodeAsync<T, O extends ParseOptions>(
+  parse: (options: O) => Promise<T>,
+  options: O,
+  path: Array<string | number>,
+): Promise<T | null> {
+  if (options.diagnostics == null) {
+    return parse(getNodeParseOptions(options, path));
+  }
+
+  try {
+    return await parse(getNodeParseOptions(options, path));
+  } catch (error) {
+    addDiagnostic(options, path, error);
+    return null;
+  }
+}
+
+/**
+ * Runs a parser or fetcher in lenient mode, collecting diagnostics instead of throwing on broken nodes
+ *
+ * @param run - Function running the parser or fetcher with the given diagnostics collector
+ * @returns The data returned by `run` along with the collected diagnostics
+ *
+ * @example
+ * ```ts
+ * const { data, diagnostics } = await withDiagnostics((diagnostics) =>
+ *   fetchWebsite("uchicago-node", { diagnostics }),
+ * );
+ * for (const diagnostic of diagnostics) {
+ *   console.warn(`${diagnostic.uuid} at “${diagnostic.path.join(".")}”: ${diagnostic.message}`);
+ * }
+ * ```
+ *
+ * @remarks
+ * Broken nodes (a note, a link, a property, a nested item, a web element…) are skipped
+ * and reported with the UUID of the item containing them and their path within it.
+ */
+export function withDiagnostics<T>(
+  run: (diagnostics: Array<OchreDiagnostic>) => Promise<T>,
+): Promise<OchreParseResult<T>>;
+export function withDiagnostics<T>(
+  run: (diagnostics: Array<OchreDiagnostic>) => T,
+): OchreParseResult<T>;
+export function withDiagnostics<T>(
+  run: (diagnostics: Array<OchreDiagnostic>) => T | Promise<T>,
+): OchreParseResult<T> | Promise<OchreParseResult<T>> {
+  const diagnostics: Array<OchreDiagnostic> = [];
+  const data = run(diagnostics);
+
+  if (data instanceof Promise) {
+    return data.then((data: T) => ({ data, diagnostics }));
+  }
+
+  return { data, diagnostics };
+}
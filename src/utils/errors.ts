@@ -0,0 +1,188 @@
+/**
+ * Discriminant of the different OCHRE error types
+ */
+export type OchreErrorKind =
+  | "invalid-uuid"
+  | "http"
+  | "missing-key"
+  | "parse"
+  | "validation"
+  | "network";
+
+/**
+ * Base class of all errors returned or thrown by the OCHRE fetchers
+ */
+export abstract class OchreError extends Error {
+  abstract readonly kind: OchreErrorKind;
+}
+
+/**
+ * The provided UUID is not a valid UUID
+ */
+export class OchreInvalidUuidError extends OchreError {
+  readonly kind = "invalid-uuid";
+
+  constructor(
+    readonly uuid: string,
+    message = "Invalid UUID provided",
+  ) {
+    super(message);
+    this.name = "OchreInvalidUuidError";
+  }
+}
+
+/**
+ * The OCHRE API responded with a non-2xx status code
+ */
+export class OchreHttpError extends OchreError {
+  readonly kind = "http";
+
+  constructor(
+    readonly status: number,
+    readonly url: string,
+    message = `OCHRE API responded with status ${status}`,
+  ) {
+    super(message);
+    this.name = "OchreHttpError";
+  }
+}
+
+/**
+ * The OCHRE API response is missing an expected key, e.g. fetching a set UUID with `fetchResource`
+ */
+export class OchreMissingKeyError extends OchreError {
+  readonly kind = "missing-key";
+
+  constructor(
+    readonly key: string,
+    message = `Invalid OCHRE data: API response missing '${key}' key`,
+  ) {
+    super(message);
+    this.name = "OchreMissingKeyError";
+  }
+}
+
+/**
+ * The OCHRE API response could not be parsed
+ */
+export class OchreParseError extends OchreError {
+  readonly kind = "parse";
+
+  constructor(
+    readonly path: Array<string | number>,
+    message: string,
+    options?: ErrorOptions,
+  ) {
+    super(
+      path.length > 0 ? `${message} (at “${path.join(".")}”)` : message,
+      options,
+    );
+    this.name = "OchreParseError";
+  }
+}
+
+/**
+ * Schema violation found in raw OCHRE data
+ */
+export type OchreValidationIssue = {
+  path: Array<string | number>; // JSON path, e.g. ["ochre", "resource", "identification", "label"]
+  message: string;
+};
+
+/**
+ * The OCHRE API response does not match the raw OCHRE schemas (only reported in strict mode)
+ */
+export class OchreValidationError extends OchreError {
+  readonly kind = "validation";
+
+  constructor(
+    readonly issues: Array<OchreValidationIssue>,
+    message = `Invalid OCHRE data: ${issues.length} schema violation(s)\n${issues
+      .map((issue) => `- at “${issue.path.join(".")}”: ${issue.message}`)
+      .join("\n")}`,
+  ) {
+    super(message);
+    this.name = "OchreValidationError";
+  }
+}
+
+/**
+ * The request failed before a response was received, e.g. a timeout, an abort or a connection error
+ */
+export class OchreNetworkError extends OchreError {
+  readonly kind = "network";
+
+  constructor(
+    readonly url: string,
+    message: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "OchreNetworkError";
+  }
+}
+
+/**
+ * Union of all OCHRE error types, discriminated on `kind`
+ */
+export type AnyOchreError =
+  | OchreInvalidUuidError
+  | OchreHttpError
+  | OchreMissingKeyError
+  | OchreParseError
+  | OchreValidationError
+  | OchreNetworkError;
+
+/**
+ * Result of a fetcher: either [null, data] on success or [error, null] on failure
+ */
+export type OchreResult<T> = [null, T] | [AnyOchreError, null];
+
+/**
+ * Converts an unknown error thrown while parsing into an OchreError
+ *
+ * @param error - The error to convert
+ * @param path - Path in the raw OCHRE data that was being parsed
+ * @returns The original error if it is already an OchreError, otherwise an OchreParseError
+ * @internal
+ */
+export function toOchreError(
+  error: unknown,
+  path: Array<string | number> = [],
+): AnyOchreError {
+  if (error instanceof OchreError) {
+    return error as AnyOchreError;
+  }
+
+  return new OchreParseError(
+    path,
+    error instanceof Error ? error.message : "Unknown error",
+    { cause: error },
+  );
+}
+
+/**
+ * Returns the data of a fetcher result, throwing its error on failure
+ *
+ * @param result - Result returned by a fetcher
+ * @returns The fetched data
+ *
+ * @example
+ * ```ts
+ * try {
+ *   const { resource } = unwrap(await fetchResource(uuid));
+ * } catch (error) {
+ *   if (error instanceof OchreHttpError && error.status === 404) {
+ *     // Handle missing item...
+ *   }
+ * }
+ * ```
+ */
+export function unwrap<T>(result: OchreResult<T>): T {
+  const [error, data] = result;
+  if (error !== null) {
+    throw error;
+  }
+
+  return data;
+}
@@ -0,0 +1,48 @@
+import type { Bibliography, Metadata } from "../../types/main.js";
+import type { OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import { fetchItemByUuid } from "../fetchers/items.js";
+import { parseBibliography } from "../parse.js";
+
+/**
+ * Fetches and parses a bibliography from the OCHRE API
+ *
+ * @param uuid - The UUID of the bibliography to fetch
+ * @param options - Client options, e.g. a custom base URL, language, signal, timeout or retries
+ * @returns Tuple containing either [null, { metadata, bibliography }] on success or [OchreError, null] on failure
+ *
+ * @example
+ * ```ts
+ * const [error, result] = await fetchBibliography("123e4567-e89b-12d3-a456-426614174000");
+ * if (error !== null) {
+ *   console.error(`Failed to fetch bibliography: ${error.message}`);
+ *   return;
+ * }
+ * const { metadata, bibliography } = result;
+ * console.log(`Fetched bibliography: ${bibliography.citation.long}`);
+ * ```
+ *
+ * @remarks
+ * The returned bibliography includes:
+ * - Full bibliography metadata
+ * - Short and long citations
+ * - Authors and publication information
+ * - Source resource and document
+ * - Properties
+ */
+export async function fetchBibliography(
+  uuid: string,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<{ metadata: Metadata; bibliography: Bibliography }>> {
+  const [error, data] = await fetchItemByUuid(
+    uuid,
+    "bibliography",
+    parseBibliography,
+    options,
+  );
+  if (error !== null) {
+    return [error, null];
+  }
+
+  return [null, { metadata: data.metadata, bibliography: data.item }];
+}
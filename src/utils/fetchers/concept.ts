@@ -1,4 +1,8 @@
-import type { Concept, Data } from "../../types/main.js";
+import type { Concept, Data, Metadata } from "../../types/main.js";
+import type { OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import { resolveClientOptions } from "../config.js";
+import { OchreMissingKeyError, toOchreError } from "../errors.js";
 import { fetchByUuid } from "../fetchers/generic.js";
 import { parseConcept, parseMetadata } from "../parse.js";
 import { parseFakeString } from "../string.js";
@@ -7,17 +11,18 @@ import { parseFakeString } from "../string.js";
  * Fetches and parses a concept from the OCHRE API
  *
  * @param uuid - The UUID of the concept to fetch
- * @returns Object containing the parsed concept and its metadata, or null if the fetch/parse fails
+ * @param options - Client options, e.g. a custom base URL, language, signal, timeout or retries
+ * @returns Tuple containing either [null, { metadata, concept }] on success or [OchreError, null] on failure
  *
  * @example
  * ```ts
- * const result = await fetchConcept("123e4567-e89b-12d3-a456-426614174000");
- * if (result === null) {
- *   console.error("Failed to fetch concept");
+ * const [error, result] = await fetchConcept("123e4567-e89b-12d3-a456-426614174000");
+ * if (error !== null) {
+ *   console.error(`Failed to fetch concept: ${error.message}`);
  *   return;
  * }
- * const { metadata, item } = result;
- * console.log(`Fetched concept: ${item.identification.label}`);
+ * const { metadata, concept } = result;
+ * console.log(`Fetched concept: ${concept.identification.label}`);
  * ```
  *
  * @remarks
@@ -27,18 +32,23 @@ import { parseFakeString } from "../string.js";
  * - Context information
  * - License details
  */
-export async function fetchConcept(uuid: string) {
-  try {
-    const [error, dataRaw] = await fetchByUuid(uuid);
-    if (error !== null) {
-      throw new Error(error);
-    }
+export async function fetchConcept(
+  uuid: string,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<{ metadata: Metadata; concept: Concept }>> {
+  const config = resolveClientOptions(options);
 
-    if (!("concept" in dataRaw.ochre)) {
-      throw new Error("Invalid OCHRE data: API response missing 'concept' key");
-    }
+  const [error, dataRaw] = await fetchByUuid(uuid, config);
+  if (error !== null) {
+    return [error, null];
+  }
 
-    const conceptItem = parseConcept(dataRaw.ochre.concept);
+  if (!("concept" in dataRaw.ochre)) {
+    return [new OchreMissingKeyError("concept"), null];
+  }
+
+  try {
+    const conceptItem = parseConcept(dataRaw.ochre.concept, false, config);
 
     const data: Omit<Data, "item"> & { item: Concept } = {
       uuid: parseFakeString(dataRaw.ochre.uuid),
@@ -47,13 +57,12 @@ export async function fetchConcept(uuid: string) {
         uuid: dataRaw.ochre.uuidBelongsTo,
         abbreviation: parseFakeString(dataRaw.ochre.belongsTo),
       },
-      metadata: parseMetadata(dataRaw.ochre.metadata),
+      metadata: parseMetadata(dataRaw.ochre.metadata, config),
       item: conceptItem as Concept,
     };
 
-    return { metadata: data.metadata, concept: data.item };
+    return [null, { metadata: data.metadata, concept: data.item }];
   } catch (error) {
-    console.error(error);
-    return null;
+    return [toOchreError(error, ["ochre", "concept"]), null];
   }
 }
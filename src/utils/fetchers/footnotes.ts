@@ -0,0 +1,146 @@
+import type { Document, Footnote } from "../../types/main.js";
+import type { OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import { resolveClientOptions } from "../config.js";
+import { addDiagnostic } from "../diagnostics.js";
+import { OchreMissingKeyError } from "../errors.js";
+import { fetchItems } from "../fetchers/items.js";
+import { relabelMdxFootnotes } from "../render.js";
+
+/**
+ * Fetches the contents of the footnotes of a document, including the footnotes nested in other footnotes
+ *
+ * @param document - Parsed document whose footnotes to resolve
+ * @param options - Client options, e.g. a custom base URL, language, signal, timeout or retries
+ * @returns Tuple containing either [null, Document] with resolved footnotes on success or [OchreError, null] on failure
+ *
+ * @example
+ * ```ts
+ * const [error, document] = await resolveDocumentFootnotes(resource.document);
+ * if (error !== null) {
+ *   console.error(`Failed to resolve footnotes: ${error.message}`);
+ *   return;
+ * }
+ * for (const footnote of document.footnotes) {
+ *   console.log(`${footnote.number}. ${footnote.content}`);
+ * }
+ * ```
+ *
+ * @remarks
+ * Footnotes are fetched in batches, one request per level of nesting. Each footnote
+ * is listed once, numbered in document order, followed by the footnotes nested in
+ * them. The labels of all footnotes and their references, in the document as in
+ * the footnotes, are replaced by these numbers. Footnotes that
+ * fail to fetch, are missing from the response or are not resources fail the whole
+ * document, unless in lenient mode: they then keep an empty content and are
+ * reported as diagnostics.
+ */
+export async function resolveDocumentFootnotes(
+  document: Document,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<Document>> {
+  const config = resolveClientOptions(options);
+
+  const footnotes: Array<Footnote> = [];
+  const seenUuids = new Set<string>();
+  let footnotesToResolve = document.footnotes;
+
+  while (footnotesToResolve.length > 0) {
+    const uniqueFootnotes = footnotesToResolve.filter((footnote) => {
+      if (seenUuids.has(footnote.uuid)) {
+        return false;
+      }
+
+      seenUuids.add(footnote.uuid);
+      return true;
+    });
+
+    const results = await fetchItems(
+      uniqueFootnotes.map((footnote) => footnote.uuid),
+      config,
+    );
+
+    const nestedFootnotes: Array<Footnote> = [];
+    for (const footnote of uniqueFootnotes) {
+      const [fetchError, data] = results[footnote.uuid] ?? [
+        new OchreMissingKeyError(
+          footnote.uuid,
+          `Footnote “${footnote.uuid}” missing from the OCHRE API response`,
+        ),
+        null,
+      ];
+      const error =
+        data !== null && data.item.variant !== "resource" ?
+          new OchreMissingKeyError(
+            "resource",
+            `Footnote “${footnote.uuid}” is a ${data.item.variant}, not a resource`,
+          )
+        : fetchError;
+      if (error !== null) {
+        if (config.diagnostics == null) {
+          return [error, null];
+        }
+
+        addDiagnostic(
+          { ...config, itemUuid: footnote.uuid, path: [] },
+          [],
+          error,
+        );
+      }
+
+      const footnoteDocument =
+        data?.item.variant === "resource" ? data.item.document : null;
+      const number = footnotes.length + 1;
+
+      footnotes.push({
+        ...footnote,
+        number,
+        label: String(number),
+        content: footnoteDocument?.content ?? footnote.content,
+      });
+      nestedFootnotes.push(...(footnoteDocument?.footnotes ?? []));
+    }
+
+    footnotesToResolve = nestedFootnotes;
+  }
+
+  const numbers = new Map<string, number>(
+    footnotes.map((footnote) => [footnote.uuid, footnote.number]),
+  );
+
+  const relabel = (content: string) =>
+    relabelMdxFootnotes(content, numbers, config.mdx);
+
+  const resolvedDocument: Document = {
+    ...document,
+    content: relabel(document.content),
+    footnotes: footnotes.map((footnote) => ({
+      ...footnote,
+      content: relabel(footnote.content),
+    })),
+  };
+  if (document.localized) {
+    resolvedDocument.localized = {
+      content: Object.fromEntries(
+        Object.entries(document.localized.content).map(
+          ([language, content]) => [language, relabel(content)],
+        ),
+      ),
+    };
+  }
+  if (document.richText) {
+    resolvedDocument.richText = {
+      ...document.richText,
+      children: document.richText.children.map((node) => {
+        const number =
+          node.type === "footnoteReference" ?
+            numbers.get(node.identifier)
+          : undefined;
+
+        return number !== undefined ? { ...node, label: String(number) } : node;
+      }),
+    };
+  }
+
+  return [null, resolvedDocument];
+}
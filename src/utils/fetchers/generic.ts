@@ -1,48 +1,641 @@
 import type { OchreData } from "../../types/internal.raw.d.ts";
+import type { OchreCacheEntry } from "../cache.js";
+import type { OchreClientConfig, OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
 import { z } from "zod";
+import { resolveClientOptions } from "../config.js";
+import {
+  OchreHttpError,
+  OchreInvalidUuidError,
+  OchreMissingKeyError,
+  OchreNetworkError,
+  OchreParseError,
+  toOchreError,
+} from "../errors.js";
+import {
+  ochreDataSchema,
+  ochrePublicationDateTimesSchema,
+  ochreXQueryResultSchema,
+  validateOchreData,
+} from "../schemas.js";
+import { buildXQuery, getXQueryUrl } from "../xquery.js";
 
 const uuidSchema = z.string().uuid({ message: "Invalid UUID provided" });
 
+/**
+ * Identifiers of the `fetch` implementations and caches used in request keys
+ * @internal
+ */
+const identities = new WeakMap<object, number>();
+let lastIdentity = 0;
+
+/**
+ * Returns a number identifying an object, e.g. a `fetch` implementation, for as long as it is referenced
+ *
+ * @param value - Object to identify
+ * @returns Identifier of the object, or null if there is none
+ * @internal
+ */
+function getIdentity(value: object | null): number | null {
+  if (value === null) {
+    return null;
+  }
+
+  let identity = identities.get(value);
+  if (identity === undefined) {
+    identity = ++lastIdentity;
+    identities.set(value, identity);
+  }
+
+  return identity;
+}
+
+/**
+ * Builds the key under which a request is coalesced with identical in-flight requests
+ *
+ * @param url - The URL to fetch
+ * @param config - Client configuration
+ * @returns Key covering the URL and every setting that changes the response
+ * @internal
+ */
+function getRequestKey(url: string, config: OchreClientConfig): string {
+  const headers = Object.entries(config.headers).sort(([a], [b]) =>
+    a.localeCompare(b),
+  );
+
+  return JSON.stringify([
+    url,
+    getIdentity(config.fetch),
+    getIdentity(config.cache),
+    headers,
+    config.timeout,
+    config.retries,
+    config.retryDelay,
+    config.cacheTtl,
+  ]);
+}
+
+/**
+ * Runs a request on the configured queue, sharing it with identical in-flight requests
+ *
+ * @param url - The URL to fetch
+ * @param config - Client configuration
+ * @param task - Request to run, given a configuration whose signal is aborted once every caller sharing it has aborted
+ * @returns Result of the request
+ * @throws {OchreNetworkError} If the signal of the caller is aborted
+ *
+ * @remarks
+ * Requests are only shared between callers using the same `fetch`
+ * implementation, headers, cache, timeout and retry settings. The signal of a
+ * caller never cancels a request other callers are still waiting for.
+ *
+ * @internal
+ */
+export async function runQueuedRequest<T>(
+  url: string,
+  config: OchreClientConfig,
+  task: (config: OchreClientConfig) => Promise<T>,
+): Promise<T> {
+  try {
+    return await config.queue.run(
+      getRequestKey(url, config),
+      (signal) => task({ ...config, signal }),
+      config.signal,
+    );
+  } catch (error) {
+    if (config.signal?.aborted) {
+      throw new OchreNetworkError(url, "Request aborted", { cause: error });
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Waits for the given delay, resolving early if the signal is aborted
+ *
+ * @param delay - Delay in milliseconds
+ * @param signal - Optional signal used to cancel the wait
+ * @internal
+ */
+function sleep(delay: number, signal: AbortSignal | null): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+
+    function onAbort() {
+      clearTimeout(timeoutId);
+      resolve();
+    }
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Fetches a URL from the OCHRE API, applying the configured timeout and retries
+ *
+ * @param url - The URL to fetch
+ * @param options - Client options, including signal, timeout and retry settings
+ * @returns The response of the last attempt
+ * @throws {OchreNetworkError} If the request is aborted or no response is received
+ *
+ * @example
+ * ```ts
+ * const response = await fetchWithRetry(url, { timeout: 10_000, retries: 3 });
+ * ```
+ *
+ * @remarks
+ * 5xx responses and network errors (including per-attempt timeouts) are retried
+ * with exponential backoff. Aborting the provided signal stops immediately.
+ *
+ * @internal
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: OchreClientOptions = {},
+): Promise<Response> {
+  const { fetch, headers, signal, timeout, retries, retryDelay } =
+    resolveClientOptions(options);
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new OchreNetworkError(url, "Request aborted", {
+        cause: signal.reason,
+      });
+    }
+
+    const signals: Array<AbortSignal> = [];
+    if (signal !== null) {
+      signals.push(signal);
+    }
+    if (timeout !== null) {
+      signals.push(AbortSignal.timeout(timeout));
+    }
+
+    try {
+      const response = await fetch(url, {
+        headers,
+        signal: signals.length > 0 ? AbortSignal.any(signals) : undefined,
+      });
+      if (response.status < 500 || attempt >= retries) {
+        return response;
+      }
+
+      await response.body?.cancel();
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries) {
+        throw new OchreNetworkError(
+          url,
+          error instanceof Error ? error.message : "Network error",
+          { cause: error },
+        );
+      }
+    }
+
+    await sleep(retryDelay * 2 ** attempt, signal);
+  }
+}
+
+/**
+ * Reads the JSON body of an OCHRE API response
+ *
+ * @param response - The response to read
+ * @returns The parsed JSON body
+ * @throws {OchreParseError} If the body is not valid JSON
+ * @internal
+ */
+export async function parseJsonResponse<T>(response: Response): Promise<T> {
+  try {
+    return (await response.json()) as T;
+  } catch (error) {
+    throw new OchreParseError(
+      [],
+      `Invalid JSON in OCHRE API response: ${error instanceof Error ? error.message : "Unknown error"}`,
+      { cause: error },
+    );
+  }
+}
+
+/**
+ * Fetches the current publication dates of OCHRE items in a single request, without downloading the items themselves
+ *
+ * @param uuids - The UUIDs of the OCHRE items
+ * @param config - Client configuration
+ * @returns The publication dates as stored by OCHRE, keyed by lowercase UUID; items that could not be fetched are left out
+ * @internal
+ */
+async function fetchPublicationDateTimes(
+  uuids: Array<string>,
+  config: OchreClientConfig,
+): Promise<Map<string, string>> {
+  try {
+    const result = await fetchXQueryResult(
+      buildXQuery({ uuids, return: "publicationDateTime" }),
+      config,
+      ochrePublicationDateTimesSchema,
+    );
+    if (!("item" in result)) {
+      return new Map();
+    }
+
+    const items = Array.isArray(result.item) ? result.item : [result.item];
+
+    return new Map<string, string>(
+      items.map((item) => [item.uuid.toLowerCase(), item.publicationDateTime]),
+    );
+  } catch {
+    return new Map();
+  }
+}
+
+/**
+ * Returns the key under which an item is stored in the cache
+ *
+ * @param key - Cache key as given by the fetcher, e.g. the UUID of the item
+ * @param config - Client configuration
+ * @returns Cache key scoped to the base URL the item is fetched from, so that UUIDs differing in case share their entry
+ *
+ * @remarks
+ * Responses are requested in every language at once, so the language does not
+ * take part in the key.
+ *
+ * @internal
+ */
+function getCacheKey(key: string, config: OchreClientConfig): string {
+  return `${config.baseUrl}#${key.toLowerCase()}`;
+}
+
+/**
+ * Reads raw OCHRE data from the configured cache, revalidating all entries against the publication dates of their items at once
+ *
+ * @param keys - Cache keys, usually the UUIDs of the items
+ * @param config - Client configuration
+ * @returns Cached OCHRE data keyed by the keys as given, for the keys with a current cache entry
+ *
+ * @remarks
+ * Entries younger than `cacheTtl` are returned as is. Older entries are only
+ * returned if their item has not been republished since it was cached, checked
+ * with a single request for all of them.
+ *
+ * @internal
+ */
+export async function getManyCachedData(
+  keys: Array<string>,
+  config: OchreClientConfig,
+): Promise<Map<string, OchreData>> {
+  const cachedData = new Map<string, OchreData>();
+  if (config.cache === null) {
+    return cachedData;
+  }
+
+  const staleEntries: Array<[string, OchreCacheEntry]> = [];
+  for (const key of keys) {
+    const entry = await config.cache.get(getCacheKey(key, config));
+    if (!entry) {
+      continue;
+    }
+
+    if (Date.now() - entry.cachedAt < config.cacheTtl) {
+      cachedData.set(key, entry.data);
+    } else {
+      staleEntries.push([key, entry]);
+    }
+  }
+
+  if (staleEntries.length === 0) {
+    return cachedData;
+  }
+
+  const publicationDateTimes = await fetchPublicationDateTimes(
+    staleEntries.map(([, entry]) => entry.uuid),
+    config,
+  );
+  for (const [key, entry] of staleEntries) {
+    if (
+      publicationDateTimes.get(entry.uuid.toLowerCase()) !==
+      entry.publicationDateTime
+    ) {
+      continue;
+    }
+
+    await config.cache.set(getCacheKey(key, config), {
+      ...entry,
+      cachedAt: Date.now(),
+    });
+    cachedData.set(key, entry.data);
+  }
+
+  return cachedData;
+}
+
+/**
+ * Reads raw OCHRE data from the configured cache, revalidating it against the item's publication date
+ *
+ * @param key - Cache key, usually the UUID of the item
+ * @param config - Client configuration
+ * @returns Cached OCHRE data, or null if there is no current cache entry
+ * @internal
+ */
+export async function getCachedData(
+  key: string,
+  config: OchreClientConfig,
+): Promise<OchreData | null> {
+  const cachedData = await getManyCachedData([key], config);
+
+  return cachedData.get(key) ?? null;
+}
+
+/**
+ * Writes raw OCHRE data to the configured cache
+ *
+ * @param key - Cache key, usually the UUID of the item
+ * @param data - Raw OCHRE data to cache
+ * @param config - Client configuration
+ * @internal
+ */
+export async function setCachedData(
+  key: string,
+  data: OchreData,
+  config: OchreClientConfig,
+): Promise<void> {
+  if (config.cache === null) {
+    return;
+  }
+
+  await config.cache.set(getCacheKey(key, config), {
+    uuid: data.ochre.uuid,
+    publicationDateTime: data.ochre.publicationDateTime,
+    cachedAt: Date.now(),
+    data,
+  });
+}
+
 /**
  * Fetches raw OCHRE data by UUID from the OCHRE API
  *
  * @param uuid - The UUID of the OCHRE item to fetch
- * @returns A tuple containing either [null, OchreData] on success or [error message, null] on failure
+ * @param options - Client options, e.g. a custom base URL, `fetch` implementation, signal, timeout, retries, cache or concurrency
+ * @returns A tuple containing either [null, OchreData] on success or [OchreError, null] on failure
  *
  * @example
  * ```ts
  * const [error, data] = await fetchByUuid("123e4567-e89b-12d3-a456-426614174000");
  * if (error !== null) {
- *   console.error(`Failed to fetch: ${error}`);
+ *   console.error(`Failed to fetch (${error.kind}): ${error.message}`);
  *   return;
  * }
  * // Process data...
  * ```
  *
+ * @remarks
+ * Concurrent calls for the same UUID with the same settings on the same queue
+ * share a single request.
+ *
  * @internal
  */
 export async function fetchByUuid(
   uuid: string,
-): Promise<[null, OchreData] | [string, null]> {
+  options: OchreClientOptions = {},
+): Promise<OchreResult<OchreData>> {
   try {
     const result = uuidSchema.safeParse(uuid);
     if (!result.success) {
-      throw new Error(result.error.issues[0]?.message);
+      throw new OchreInvalidUuidError(uuid, result.error.issues[0]?.message);
     }
 
-    const response = await fetch(
-      `https://ochre.lib.uchicago.edu/ochre?uuid=${uuid}&format=json&lang="*"`,
-    );
-    if (!response.ok) {
-      throw new Error("Failed to fetch OCHRE data");
-    }
-    const dataRaw = (await response.json()) as OchreData;
-    if (!("ochre" in dataRaw)) {
-      throw new Error("Invalid OCHRE data: API response missing 'ochre' key");
+    const config = resolveClientOptions(options);
+    const url = `${config.baseUrl}?uuid=${uuid}&format=json&lang="*"`;
+
+    // The cache is read outside of the queue, as revalidating it takes a slot of its own
+    const dataRaw =
+      (await getCachedData(uuid, config)) ??
+      (await runQueuedRequest(url, config, async (config) => {
+        const response = await fetchWithRetry(url, config);
+        if (!response.ok) {
+          throw new OchreHttpError(response.status, url);
+        }
+        const dataRaw = await parseJsonResponse<OchreData>(response);
+        if (!("ochre" in dataRaw)) {
+          throw new OchreMissingKeyError("ochre");
+        }
+
+        await setCachedData(uuid, dataRaw, config);
+
+        return dataRaw;
+      }));
+
+    if (config.strict) {
+      validateOchreData(ochreDataSchema, dataRaw);
     }
 
     return [null, dataRaw];
   } catch (error) {
-    return [error instanceof Error ? error.message : "Unknown error", null];
+    return [toOchreError(error), null];
   }
 }
+
+/**
+ * Runs an XQuery against the OCHRE API and returns its raw result
+ *
+ * @param xquery - XQuery to run, e.g. built with `buildXQuery`
+ * @param options - Client options
+ * @param schema - Schema of a non-empty result, validated in strict mode
+ * @returns The `result` of the response, an empty array if nothing matched
+ * @throws {OchreError} If the request fails or the response is invalid
+ * @internal
+ */
+export async function fetchXQueryResult<T>(
+  xquery: string,
+  options: OchreClientOptions,
+  schema: z.ZodType<T>,
+): Promise<T | []> {
+  const config = resolveClientOptions(options);
+  const url = getXQueryUrl(xquery, config.baseUrl);
+
+  const result = await runQueuedRequest(url, config, async (config) => {
+    const response = await fetchWithRetry(url, config);
+    if (!response.ok) {
+      throw new OchreHttpError(response.status, url);
+    }
+
+    const data = await parseJsonResponse<{ result: T | [] }>(response);
+    if (!("result" in data)) {
+      throw new OchreMissingKeyError("result");
+    }
+
+    return data.result;
+  });
+
+  if (config.strict) {
+    validateOchreData(z.object({ result: z.union([schema, z.tuple([])]) }), {
+      result,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Runs an XQuery against the OCHRE API and returns the raw OCHRE items it selects
+ *
+ * @param xquery - XQuery returning whole OCHRE items, e.g. built with `buildXQuery`
+ * @param options - Client options
+ * @returns Raw OCHRE data of every selected item
+ * @throws {OchreError} If the request fails or the response is invalid
+ * @internal
+ */
+export async function fetchByXQuery(
+  xquery: string,
+  options: OchreClientOptions = {},
+): Promise<Array<OchreData>> {
+  const result = await fetchXQueryResult(
+    xquery,
+    options,
+    ochreXQueryResultSchema,
+  );
+  if (!("ochre" in result)) {
+    return [];
+  }
+
+  const items = Array.isArray(result.ochre) ? result.ochre : [result.ochre];
+
+  return items.map((item) => ({ ochre: item }) as OchreData);
+}
+
+/**
+ * Fetches raw OCHRE data for many UUIDs at once, batching them into as few requests as possible
+ *
+ * @param uuids - The UUIDs of the OCHRE items to fetch
+ * @param options - Client options, plus the maximum number of UUIDs per request
+ * @param options.batchSize - Maximum number of UUIDs fetched per request (defaults to 50)
+ * @returns Results keyed by UUID, each either [null, OchreData] on success or [OchreError, null] on failure
+ *
+ * @example
+ * ```ts
+ * const results = await fetchManyByUuid([firstUuid, secondUuid]);
+ * for (const [uuid, [error, data]] of Object.entries(results)) {
+ *   if (error !== null) {
+ *     console.error(`Failed to fetch ${uuid}: ${error.message}`);
+ *     continue;
+ *   }
+ *   // Process data...
+ * }
+ * ```
+ *
+ * @remarks
+ * Items are fetched with an XQuery on `input()/ochre[@uuid=(...)]`. Cached items
+ * are read from the cache, revalidated together in a single request, and only the
+ * remaining UUIDs are requested. Invalid or
+ * missing UUIDs get their own error without failing the rest of the batch.
+ * UUIDs are matched case-insensitively, and results are keyed by the UUIDs as
+ * given.
+ *
+ * @internal
+ */
+export async function fetchManyByUuid(
+  uuids: Array<string>,
+  options: OchreClientOptions & { batchSize?: number } = {},
+): Promise<Record<string, OchreResult<OchreData>>> {
+  const config = resolveClientOptions(options);
+  const batchSize = options.batchSize ?? 50;
+  const results: Record<string, OchreResult<OchreData>> = {};
+  if (!Number.isSafeInteger(batchSize) || batchSize < 1) {
+    for (const uuid of uuids) {
+      results[uuid] = [
+        new OchreParseError([], `Invalid batch size “${batchSize}”`),
+        null,
+      ];
+    }
+
+    return results;
+  }
+
+  const uuidsToFetch: Array<string> = [];
+
+  // UUIDs are case-insensitive, results are keyed by the UUIDs as requested
+  const requestedUuids = new Map<string, Array<string>>();
+  for (const uuid of new Set(uuids)) {
+    const result = uuidSchema.safeParse(uuid);
+    if (!result.success) {
+      results[uuid] = [
+        new OchreInvalidUuidError(uuid, result.error.issues[0]?.message),
+        null,
+      ];
+      continue;
+    }
+
+    const normalizedUuid = uuid.toLowerCase();
+    requestedUuids.set(normalizedUuid, [
+      ...(requestedUuids.get(normalizedUuid) ?? []),
+      uuid,
+    ]);
+  }
+
+  const setResults = (
+    normalizedUuid: string,
+    result: OchreResult<OchreData>,
+  ) => {
+    for (const uuid of requestedUuids.get(normalizedUuid) ?? []) {
+      results[uuid] = result;
+    }
+  };
+
+  const cachedData = await getManyCachedData(
+    [...requestedUuids.keys()],
+    config,
+  );
+  for (const normalizedUuid of requestedUuids.keys()) {
+    const dataRaw = cachedData.get(normalizedUuid);
+    if (dataRaw !== undefined) {
+      setResults(normalizedUuid, [null, dataRaw]);
+      continue;
+    }
+
+    uuidsToFetch.push(normalizedUuid);
+  }
+
+  const batches: Array<Array<string>> = [];
+  for (let index = 0; index < uuidsToFetch.length; index += batchSize) {
+    batches.push(uuidsToFetch.slice(index, index + batchSize));
+  }
+
+  await Promise.all(
+    batches.map(async (batch) => {
+      try {
+        const items = await fetchByXQuery(
+          buildXQuery({ uuids: batch }),
+          config,
+        );
+
+        for (const dataRaw of items) {
+          const normalizedUuid = dataRaw.ochre.uuid.toLowerCase();
+          setResults(normalizedUuid, [null, dataRaw]);
+          await setCachedData(normalizedUuid, dataRaw, config);
+        }
+
+        for (const normalizedUuid of batch) {
+          for (const uuid of requestedUuids.get(normalizedUuid) ?? []) {
+            results[uuid] ??= [
+              new OchreMissingKeyError("ochre", `Item “${uuid}” not found`),
+              null,
+            ];
+          }
+        }
+      } catch (error) {
+        for (const normalizedUuid of batch) {
+          setResults(normalizedUuid, [toOchreError(error), null]);
+        }
+      }
+    }),
+  );
+
+  return results;
+}
@@ -0,0 +1,157 @@
+import type { OchreData } from "../../types/internal.raw.d.ts";
+import type { Data, Metadata } from "../../types/main.js";
+import type { OchreClientConfig, OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import { resolveClientOptions } from "../config.js";
+import { OchreMissingKeyError, toOchreError } from "../errors.js";
+import { fetchByUuid, fetchManyByUuid } from "../fetchers/generic.js";
+import { parseData, parseMetadata } from "../parse.js";
+
+/**
+ * Raw OCHRE API response holding an item under a given key, e.g. "person"
+ * @internal
+ */
+type OchreDataWithItem<K extends string> = Extract<
+  OchreData["ochre"],
+  Record<K, unknown>
+>;
+
+/**
+ * Fetches and parses an item of any category from the OCHRE API
+ *
+ * @param uuid - The UUID of the item to fetch
+ * @param options - Client options, e.g. a custom base URL, language, signal, timeout or retries
+ * @returns Tuple containing either [null, Data] on success or [OchreError, null] on failure
+ *
+ * @example
+ * ```ts
+ * const [error, data] = await fetchItem("123e4567-e89b-12d3-a456-426614174000");
+ * if (error !== null) {
+ *   console.error(`Failed to fetch item: ${error.message}`);
+ *   return;
+ * }
+ * switch (data.item.variant) {
+ *   case "resource": {
+ *     console.log(`Fetched resource: ${data.item.identification.label}`);
+ *     break;
+ *   }
+ *   case "tree": {
+ *     console.log(`Contains ${data.item.items.resources.length} resources`);
+ *     break;
+ *   }
+ *   // ...
+ * }
+ * ```
+ *
+ * @remarks
+ * The category of the item (tree, set, resource, spatial unit, concept,
+ * bibliography, person or period) is detected from the response, so it does not
+ * need to be known in advance.
+ */
+export async function fetchItem(
+  uuid: string,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<Data>> {
+  const config = resolveClientOptions(options);
+
+  const [error, dataRaw] = await fetchByUuid(uuid, config);
+  if (error !== null) {
+    return [error, null];
+  }
+
+  try {
+    return [null, parseData(dataRaw, config)];
+  } catch (error) {
+    return [toOchreError(error, ["ochre"]), null];
+  }
+}
+
+/**
+ * Fetches an item of a known category and parses it along with the metadata of the response
+ *
+ * @param uuid - The UUID of the item to fetch
+ * @param key - Key of the item in the OCHRE API response, e.g. "person"
+ * @param parse - Parser of the raw item
+ * @param options - Client options
+ * @returns Tuple containing either [null, { metadata, item }] on success or [OchreError, null] on failure
+ * @internal
+ */
+export async function fetchItemByUuid<K extends string, T>(
+  uuid: string,
+  key: K,
+  parse: (item: OchreDataWithItem<K>[K], config: OchreClientConfig) => T,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<{ metadata: Metadata; item: T }>> {
+  const config = resolveClientOptions(options);
+
+  const [error, dataRaw] = await fetchByUuid(uuid, config);
+  if (error !== null) {
+    return [error, null];
+  }
+
+  if (!(key in dataRaw.ochre)) {
+    return [new OchreMissingKeyError(key), null];
+  }
+
+  try {
+    const item = parse((dataRaw.ochre as OchreDataWithItem<K>)[key], config);
+
+    return [
+      null,
+      { metadata: parseMetadata(dataRaw.ochre.metadata, config), item },
+    ];
+  } catch (error) {
+    return [toOchreError(error, ["ochre", key]), null];
+  }
+}
+
+/**
+ * Fetches and parses many items from the OCHRE API at once
+ *
+ * @param uuids - The UUIDs of the items to fetch
+ * @param options - Client options, plus the maximum number of UUIDs per request
+ * @param options.batchSize - Maximum number of UUIDs fetched per request (defaults to 50)
+ * @returns Results keyed by UUID, each either [null, Data] on success or [OchreError, null] on failure
+ *
+ * @example
+ * ```ts
+ * const results = await fetchItems(uuids);
+ * const resources = uuids.flatMap((uuid) => {
+ *   const [error, data] = results[uuid]!;
+ *   return error === null && data.item.variant === "resource" ? [data.item] : [];
+ * });
+ * ```
+ *
+ * @remarks
+ * The category of each item is detected from the response, so trees, sets,
+ * resources, spatial units, concepts, bibliographies, persons and periods can be
+ * fetched together. A UUID that
+ * fails to fetch or parse only affects its own result.
+ */
+export async function fetchItems(
+  uuids: Array<string>,
+  options: OchreClientOptions & { batchSize?: number } = {},
+): Promise<Record<string, OchreResult<Data>>> {
+  const config = resolveClientOptions(options);
+
+  const dataRawResults = await fetchManyByUuid(uuids, {
+    ...config,
+    batchSize: options.batchSize,
+  });
+
+  const results: Record<string, OchreResult<Data>> = {};
+  for (const [uuid, [error, dataRaw]] of Object.entries(dataRawResults)) {
+    if (error !== null) {
+      results[uuid] = [error, null];
+      continue;
+    }
+
+    try {
+      results[uuid] = [null, parseData(dataRaw, config)];
+    } catch (error) {
+      results[uuid] = [toOchreError(error, ["ochre"]), null];
+    }
+  }
+
+  return results;
+}
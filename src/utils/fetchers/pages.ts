@@ -0,0 +1,275 @@
+import type { OchreTree } from "../../types/internal.raw.d.ts";
+import type {
+  Concept,
+  NestedConcept,
+  NestedResource,
+  NestedSpatialUnit,
+  Period,
+  Resource,
+  SpatialUnit,
+  Tree,
+} from "../../types/main.js";
+import type { OchreClientOptions, ParseOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import { resolveClientOptions } from "../config.js";
+import { getNodeParseOptions } from "../diagnostics.js";
+import {
+  OchreMissingKeyError,
+  OchreParseError,
+  toOchreError,
+} from "../errors.js";
+import { fetchXQueryResult } from "../fetchers/generic.js";
+import { parseSetItems, parseTreeItems } from "../parse.js";
+import {
+  ochreItemsPageSchema,
+  ochrePublicationDateTimesSchema,
+} from "../schemas.js";
+import { buildItemsXQuery, buildXQuery } from "../xquery.js";
+
+/**
+ * Page of items along with the cursors used to fetch it and the next page
+ */
+export type OchrePage<T> = {
+  items: Array<T>;
+  cursor: string | null;
+  nextCursor: string | null; // null on the last page
+};
+
+/**
+ * Options of the paged fetchers
+ */
+export type OchrePageOptions = OchreClientOptions & {
+  /** Cursor of the page to fetch, as returned in `nextCursor` (defaults to the first page) */
+  cursor?: string | null;
+  /** Maximum number of items per page (defaults to 100) */
+  pageSize?: number;
+};
+
+/**
+ * Item of a tree, in the same shape as in `Tree["items"]`
+ */
+export type TreeItem = Resource | SpatialUnit | Concept | Period;
+
+/**
+ * Item of a set, in the same shape as in `Set["items"]`
+ */
+export type SetItem =
+  | NestedResource
+  | NestedSpatialUnit
+  | NestedConcept
+  | Period;
+
+/**
+ * Items of the trees and sets, by category
+ */
+type OchrePageItems = { tree: TreeItem; set: SetItem };
+
+/**
+ * Fetches a page of the top-level items of a tree or set
+ *
+ * @param uuid - The UUID of the tree or set
+ * @param category - Category of the item holding the items
+ * @param options - Paging and client options
+ * @param parseItems - Parser of the raw items of the category, e.g. `parseTreeItems`
+ * @returns Tuple containing either [null, OchrePage] on success or [OchreError, null] on failure
+ * @internal
+ */
+async function fetchItemsPage<C extends keyof OchrePageItems>(
+  uuid: string,
+  category: C,
+  options: OchrePageOptions,
+  parseItems: (
+    items: OchreTree["items"],
+    options: ParseOptions,
+  ) => Record<keyof Tree["items"], Array<OchrePageItems[C]>>,
+): Promise<OchreResult<OchrePage<OchrePageItems[C]>>> {
+  const config = resolveClientOptions(options);
+  const cursor = options.cursor ?? null;
+  const pageSize = options.pageSize ?? 100;
+
+  // Cursors are the offsets of their page, as returned in `nextCursor`
+  const offset = cursor !== null ? Number(cursor) : 0;
+  if (
+    (cursor !== null && !/^\d+$/.test(cursor)) ||
+    !Number.isSafeInteger(offset)
+  ) {
+    return [new OchreParseError([], `Invalid cursor “${cursor}”`), null];
+  }
+  if (!Number.isSafeInteger(pageSize) || pageSize < 1) {
+    return [new OchreParseError([], `Invalid page size “${pageSize}”`), null];
+  }
+
+  try {
+    const result = await fetchXQueryResult(
+      buildItemsXQuery(uuid, category, { offset, limit: pageSize }),
+      config,
+      ochreItemsPageSchema,
+    );
+    if (Array.isArray(result)) {
+      // An empty page is only valid past the last item of an existing tree or set
+      const items = await fetchXQueryResult(
+        buildXQuery({ uuids: [uuid], category, return: "publicationDateTime" }),
+        config,
+        ochrePublicationDateTimesSchema,
+      );
+      if (Array.isArray(items)) {
+        return [
+          new OchreMissingKeyError(
+            category,
+            `${category === "tree" ? "Tree" : "Set"} “${uuid}” not found`,
+          ),
+          null,
+        ];
+      }
+
+      return [null, { items: [], cursor, nextCursor: null }];
+    }
+
+    const itemsRaw = Array.isArray(result.item) ? result.item : [result.item];
+
+    const pageItems: Array<OchrePageItems[C]> = [];
+    for (const [index, itemRaw] of itemsRaw.entries()) {
+      const items = parseItems(
+        itemRaw,
+        getNodeParseOptions(config, ["item", index]),
+      );
+
+      pageItems.push(
+        ...items.resources,
+        ...items.spatialUnits,
+        ...items.concepts,
+        ...items.periods,
+      );
+    }
+
+    return [
+      null,
+      {
+        items: pageItems,
+        cursor,
+        // Items skipped in lenient mode still count towards the page
+        nextCursor:
+          itemsRaw.length < pageSize ? null : String(offset + pageSize),
+      },
+    ];
+  } catch (error) {
+    return [toOchreError(error, ["result"]), null];
+  }
+}
+
+/**
+ * Fetches and parses a page of the top-level items of a tree from the OCHRE API
+ *
+ * @param uuid - The UUID of the tree
+ * @param options - Paging and client options, e.g. the cursor of the page and the page size
+ * @returns Tuple containing either [null, OchrePage<TreeItem>] on success or [OchreError, null] on failure
+ *
+ * @example
+ * ```ts
+ * const [error, page] = await fetchTreePage(uuid, { pageSize: 50 });
+ * if (error !== null) {
+ *   console.error(`Failed to fetch tree page: ${error.message}`);
+ *   return;
+ * }
+ * // Store page.nextCursor to fetch the next page later
+ * ```
+ */
+export async function fetchTreePage(
+  uuid: string,
+  options: OchrePageOptions = {},
+): Promise<OchreResult<OchrePage<TreeItem>>> {
+  return fetchItemsPage(uuid, "tree", options, parseTreeItems);
+}
+
+/**
+ * Fetches and parses a page of the items of a set from the OCHRE API
+ *
+ * @param uuid - The UUID of the set
+ * @param options - Paging and client options, e.g. the cursor of the page and the page size
+ * @returns Tuple containing either [null, OchrePage<SetItem>] on success or [OchreError, null] on failure
+ *
+ * @example
+ * ```ts
+ * const [error, page] = await fetchSetPage(uuid, { cursor: savedCursor });
+ * ```
+ */
+export async function fetchSetPage(
+  uuid: string,
+  options: OchrePageOptions = {},
+): Promise<OchreResult<OchrePage<SetItem>>> {
+  return fetchItemsPage(uuid, "set", options, parseSetItems);
+}
+
+/**
+ * Iterates over the top-level items of a tree, fetching them one page at a time
+ *
+ * @param uuid - The UUID of the tree
+ * @param options - Paging and client options, e.g. a cursor to resume from and the page size
+ * @returns Async iterator yielding the items of the tree
+ * @throws {OchreError} If a page fails to fetch or parse
+ *
+ * @example
+ * ```ts
+ * for await (const item of iterateTree(uuid, { pageSize: 200 })) {
+ *   if (item.variant === "resource") {
+ *     console.log(item.identification.label);
+ *   }
+ * }
+ * ```
+ *
+ * @remarks
+ * Only one page is held in memory at a time. Use `fetchTreePage` to get the
+ * cursors needed to resume an interrupted iteration.
+ */
+export async function* iterateTree(
+  uuid: string,
+  options: OchrePageOptions = {},
+): AsyncGenerator<TreeItem, void, undefined> {
+  let cursor = options.cursor ?? null;
+
+  do {
+    const [error, page] = await fetchTreePage(uuid, { ...options, cursor });
+    if (error !== null) {
+      throw error;
+    }
+
+    yield* page.items;
+    cursor = page.nextCursor;
+  } while (cursor !== null);
+}
+
+/**
+ * Iterates over the items of a set, fetching them one page at a time
+ *
+ * @param uuid - The UUID of the set
+ * @param options - Paging and client options, e.g. a cursor to resume from and the page size
+ * @returns Async iterator yielding the items of the set
+ * @throws {OchreError} If a page fails to fetch or parse
+ *
+ * @example
+ * ```ts
+ * for await (const item of iterateSet(uuid)) {
+ *   console.log(item.identification.label);
+ * }
+ * ```
+ *
+ * @remarks
+ * Only one page is held in memory at a time. Use `fetchSetPage` to get the
+ * cursors needed to resume an interrupted iteration.
+ */
+export async function* iterateSet(
+  uuid: string,
+  options: OchrePageOptions = {},
+): AsyncGenerator<SetItem, void, undefined> {
+  let cursor = options.cursor ?? null;
+
+  do {
+    const [error, page] = await fetchSetPage(uuid, { ...options, cursor });
+    if (error !== null) {
+      throw error;
+    }
+
+    yield* page.items;
+    cursor = page.nextCursor;
+  } while (cursor !== null);
+}
@@ -0,0 +1,48 @@
+import type { Metadata, Period } from "../../types/main.js";
+import type { OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import { fetchItemByUuid } from "../fetchers/items.js";
+import { parsePeriod } from "../parse.js";
+
+/**
+ * Fetches and parses a period from the OCHRE API
+ *
+ * @param uuid - The UUID of the period to fetch
+ * @param options - Client options, e.g. a custom base URL, language, signal, timeout or retries
+ * @returns Tuple containing either [null, { metadata, period }] on success or [OchreError, null] on failure
+ *
+ * @example
+ * ```ts
+ * const [error, result] = await fetchPeriod("123e4567-e89b-12d3-a456-426614174000");
+ * if (error !== null) {
+ *   console.error(`Failed to fetch period: ${error.message}`);
+ *   return;
+ * }
+ * const { metadata, period } = result;
+ * console.log(`Fetched period: ${period.identification.label}`);
+ * ```
+ *
+ * @remarks
+ * The returned period includes:
+ * - Full period metadata
+ * - Names in all available languages
+ * - Start and end boundaries
+ * - Notes, properties and related links
+ * - License details
+ */
+export async function fetchPeriod(
+  uuid: string,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<{ metadata: Metadata; period: Period }>> {
+  const [error, data] = await fetchItemByUuid(
+    uuid,
+    "period",
+    parsePeriod,
+    options,
+  );
+  if (error !== null) {
+    return [error, null];
+  }
+
+  return [null, { metadata: data.metadata, period: data.item }];
+}
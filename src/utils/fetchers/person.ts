@@ -0,0 +1,48 @@
+import type { Metadata, Person } from "../../types/main.js";
+import type { OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import { fetchItemByUuid } from "../fetchers/items.js";
+import { parsePerson } from "../parse.js";
+
+/**
+ * Fetches and parses a person from the OCHRE API
+ *
+ * @param uuid - The UUID of the person to fetch
+ * @param options - Client options, e.g. a custom base URL, language, signal, timeout or retries
+ * @returns Tuple containing either [null, { metadata, person }] on success or [OchreError, null] on failure
+ *
+ * @example
+ * ```ts
+ * const [error, result] = await fetchPerson("123e4567-e89b-12d3-a456-426614174000");
+ * if (error !== null) {
+ *   console.error(`Failed to fetch person: ${error.message}`);
+ *   return;
+ * }
+ * const { metadata, person } = result;
+ * console.log(`Fetched person: ${person.identification?.label}`);
+ * ```
+ *
+ * @remarks
+ * The returned person includes:
+ * - Full person metadata
+ * - Names in all available languages
+ * - Biographical events, periods and properties
+ * - Notes and related links
+ * - License details
+ */
+export async function fetchPerson(
+  uuid: string,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<{ metadata: Metadata; person: Person }>> {
+  const [error, data] = await fetchItemByUuid(
+    uuid,
+    "person",
+    parsePerson,
+    options,
+  );
+  if (error !== null) {
+    return [error, null];
+  }
+
+  return [null, { metadata: data.metadata, person: data.item }];
+}
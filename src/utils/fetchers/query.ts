@@ -0,0 +1,60 @@
+import type { Data } from "../../types/main.js";
+import type { OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import type { XQuery } from "../xquery.js";
+import { resolveClientOptions } from "../config.js";
+import { toOchreError } from "../errors.js";
+import { fetchByXQuery } from "../fetchers/generic.js";
+import { parseData } from "../parse.js";
+import { buildXQuery } from "../xquery.js";
+
+/**
+ * Fetches and parses all OCHRE items matching the given filters
+ *
+ * @param query - Filters used to select the items, e.g. category, type, project or property
+ * @param options - Client options, e.g. a custom base URL, language, signal, timeout or retries
+ * @returns Tuple containing either [null, Array<Data>] on success or [OchreError, null] on failure
+ *
+ * @example
+ * ```ts
+ * const [error, items] = await queryItems({
+ *   category: "resource",
+ *   project: "uchicago-node",
+ *   property: { label: "Material", value: "Stone" },
+ *   limit: 20,
+ * });
+ * if (error !== null) {
+ *   console.error(`Failed to query items: ${error.message}`);
+ *   return;
+ * }
+ * console.log(`Found ${items.length} stone resources`);
+ * ```
+ *
+ * @remarks
+ * All filter values are escaped before being inserted in the XQuery. Each
+ * matching item is parsed with the parser of its category.
+ */
+export async function queryItems(
+  query: Omit<XQuery, "return">,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<Array<Data>>> {
+  const config = resolveClientOptions(options);
+
+  let dataRaw;
+  try {
+    dataRaw = await fetchByXQuery(buildXQuery(query), config);
+  } catch (error) {
+    return [toOchreError(error), null];
+  }
+
+  const items: Array<Data> = [];
+  for (const [index, item] of dataRaw.entries()) {
+    try {
+      items.push(parseData(item, config));
+    } catch (error) {
+      return [toOchreError(error, ["result", "ochre", index]), null];
+    }
+  }
+
+  return [null, items];
+}
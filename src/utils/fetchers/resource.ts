@@ -1,4 +1,9 @@
-import type { Data, Resource } from "../../types/main.js";
+import type { Data, Metadata, Resource } from "../../types/main.js";
+import type { OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import { resolveClientOptions } from "../config.js";
+import { OchreMissingKeyError, toOchreError } from "../errors.js";
+import { resolveDocumentFootnotes } from "../fetchers/footnotes.js";
 import { fetchByUuid } from "../fetchers/generic.js";
 import { parseMetadata, parseResource } from "../parse.js";
 import { parseFakeString } from "../string.js";
@@ -7,17 +12,18 @@ import { parseFakeString } from "../string.js";
  * Fetches and parses a resource from the OCHRE API
  *
  * @param uuid - The UUID of the resource to fetch
- * @returns Object containing the parsed resource and its metadata, or null if the fetch/parse fails
+ * @param options - Client options, e.g. a custom base URL, language, signal, timeout or retries
+ * @returns Tuple containing either [null, { metadata, resource }] on success or [OchreError, null] on failure
  *
  * @example
  * ```ts
- * const result = await fetchResource("123e4567-e89b-12d3-a456-426614174000");
- * if (result === null) {
- *   console.error("Failed to fetch resource");
+ * const [error, result] = await fetchResource("123e4567-e89b-12d3-a456-426614174000");
+ * if (error !== null) {
+ *   console.error(`Failed to fetch resource: ${error.message}`);
  *   return;
  * }
- * const { metadata, item } = result;
- * console.log(`Fetched resource: ${item.identification.label}`);
+ * const { metadata, resource } = result;
+ * console.log(`Fetched resource: ${resource.identification.label}`);
  * ```
  *
  * @remarks
@@ -28,36 +34,53 @@ import { parseFakeString } from "../string.js";
  * - Creator information
  * - Notes and bibliographic references
  * - Properties and nested resources
+ *
+ * With `resolveFootnotes: true`, the footnotes of the document are fetched and filled in.
  */
-export async function fetchResource(uuid: string) {
-  try {
-    const [error, dataRaw] = await fetchByUuid(uuid);
-    if (error !== null) {
-      throw new Error(error);
-    }
+export async function fetchResource(
+  uuid: string,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<{ metadata: Metadata; resource: Resource }>> {
+  const config = resolveClientOptions(options);
 
-    if (!("resource" in dataRaw.ochre)) {
-      throw new Error(
-        "Invalid OCHRE data: API response missing 'resource' key",
-      );
-    }
+  const [error, dataRaw] = await fetchByUuid(uuid, config);
+  if (error !== null) {
+    return [error, null];
+  }
+
+  if (!("resource" in dataRaw.ochre)) {
+    return [new OchreMissingKeyError("resource"), null];
+  }
 
-    const resourceItem = parseResource(dataRaw.ochre.resource);
+  let data: Omit<Data, "item"> & { item: Resource };
+  try {
+    const resourceItem = parseResource(dataRaw.ochre.resource, false, config);
 
-    const data: Omit<Data, "item"> & { item: Resource } = {
+    data = {
       uuid: parseFakeString(dataRaw.ochre.uuid),
       publicationDateTime: new Date(dataRaw.ochre.publicationDateTime),
       belongsTo: {
         uuid: dataRaw.ochre.uuidBelongsTo,
         abbreviation: parseFakeString(dataRaw.ochre.belongsTo),
       },
-      metadata: parseMetadata(dataRaw.ochre.metadata),
+      metadata: parseMetadata(dataRaw.ochre.metadata, config),
       item: resourceItem as Resource,
     };
-
-    return { metadata: data.metadata, resource: data.item };
   } catch (error) {
-    console.error(error);
-    return null;
+    return [toOchreError(error, ["ochre", "resource"]), null];
   }
+
+  if (config.resolveFootnotes && data.item.document) {
+    const [footnotesError, document] = await resolveDocumentFootnotes(
+      data.item.document,
+      config,
+    );
+    if (footnotesError !== null) {
+      return [footnotesError, null];
+    }
+
+    data.item.document = document;
+  }
+
+  return [null, { metadata: data.metadata, resource: data.item }];
 }
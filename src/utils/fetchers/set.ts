@@ -1,4 +1,8 @@
-import type { Data, Set } from "../../types/main.js";
+import type { Data, Metadata, Set } from "../../types/main.js";
+import type { OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import { resolveClientOptions } from "../config.js";
+import { OchreMissingKeyError, toOchreError } from "../errors.js";
 import { fetchByUuid } from "../fetchers/generic.js";
 import { parseMetadata, parseSet } from "../parse.js";
 import { parseFakeString } from "../string.js";
@@ -7,18 +11,19 @@ import { parseFakeString } from "../string.js";
  * Fetches and parses a set from the OCHRE API
  *
  * @param uuid - The UUID of the set to fetch
- * @returns Object containing the parsed set and its metadata, or null if the fetch/parse fails
+ * @param options - Client options, e.g. a custom base URL, language, signal, timeout or retries
+ * @returns Tuple containing either [null, { metadata, set }] on success or [OchreError, null] on failure
  *
  * @example
  * ```ts
- * const result = await fetchSet("123e4567-e89b-12d3-a456-426614174000");
- * if (result === null) {
- *   console.error("Failed to fetch set");
+ * const [error, result] = await fetchSet("123e4567-e89b-12d3-a456-426614174000");
+ * if (error !== null) {
+ *   console.error(`Failed to fetch set: ${error.message}`);
  *   return;
  * }
- * const { metadata, item } = result;
- * console.log(`Fetched set: ${item.identification.label}`);
- * console.log(`Contains ${item.items.resources.length.toLocaleString()} resources`);
+ * const { metadata, set } = result;
+ * console.log(`Fetched set: ${set.identification.label}`);
+ * console.log(`Contains ${set.items.resources.length.toLocaleString()} resources`);
  * ```
  *
  * @remarks
@@ -29,18 +34,23 @@ import { parseFakeString } from "../string.js";
  * - Description and type information
  * - License details
  */
-export async function fetchSet(uuid: string) {
-  try {
-    const [error, dataRaw] = await fetchByUuid(uuid);
-    if (error !== null) {
-      throw new Error(error);
-    }
+export async function fetchSet(
+  uuid: string,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<{ metadata: Metadata; set: Set }>> {
+  const config = resolveClientOptions(options);
 
-    if (!("set" in dataRaw.ochre)) {
-      throw new Error("Invalid OCHRE data: API response missing 'set' key");
-    }
+  const [error, dataRaw] = await fetchByUuid(uuid, config);
+  if (error !== null) {
+    return [error, null];
+  }
 
-    const setItem = parseSet(dataRaw.ochre.set);
+  if (!("set" in dataRaw.ochre)) {
+    return [new OchreMissingKeyError("set"), null];
+  }
+
+  try {
+    const setItem = parseSet(dataRaw.ochre.set, config);
 
     const data: Omit<Data, "item"> & { item: Set } = {
       uuid: parseFakeString(dataRaw.ochre.uuid),
@@ -49,13 +59,12 @@ export async function fetchSet(uuid: string) {
         uuid: dataRaw.ochre.uuidBelongsTo,
         abbreviation: parseFakeString(dataRaw.ochre.belongsTo),
       },
-      metadata: parseMetadata(dataRaw.ochre.metadata),
+      metadata: parseMetadata(dataRaw.ochre.metadata, config),
       item: setItem,
     };
 
-    return { metadata: data.metadata, set: data.item };
+    return [null, { metadata: data.metadata, set: data.item }];
   } catch (error) {
-    console.error(error);
-    return null;
+    return [toOchreError(error, ["ochre", "set"]), null];
   }
 }
@@ -1,4 +1,8 @@
-import type { Data, SpatialUnit } from "../../types/main.js";
+import type { Data, Metadata, SpatialUnit } from "../../types/main.js";
+import type { OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import { resolveClientOptions } from "../config.js";
+import { OchreMissingKeyError, toOchreError } from "../errors.js";
 import { fetchByUuid } from "../fetchers/generic.js";
 import { parseMetadata, parseSpatialUnit } from "../parse.js";
 import { parseFakeString } from "../string.js";
@@ -7,19 +11,20 @@ import { parseFakeString } from "../string.js";
  * Fetches and parses a spatial unit from the OCHRE API
  *
  * @param uuid - The UUID of the spatial unit to fetch
- * @returns Object containing the parsed spatial unit and its metadata, or null if the fetch/parse fails
+ * @param options - Client options, e.g. a custom base URL, language, signal, timeout or retries
+ * @returns Tuple containing either [null, { metadata, spatialUnit }] on success or [OchreError, null] on failure
  *
  * @example
  * ```ts
- * const result = await fetchSpatialUnit("123e4567-e89b-12d3-a456-426614174000");
- * if (result === null) {
- *   console.error("Failed to fetch spatial unit");
+ * const [error, result] = await fetchSpatialUnit("123e4567-e89b-12d3-a456-426614174000");
+ * if (error !== null) {
+ *   console.error(`Failed to fetch spatial unit: ${error.message}`);
  *   return;
  * }
- * const { metadata, item } = result;
- * console.log(`Fetched spatial unit: ${item.identification.label}`);
- * if (item.coordinates) {
- *   console.log(`Location: ${item.coordinates.latitude}, ${item.coordinates.longitude}`);
+ * const { metadata, spatialUnit } = result;
+ * console.log(`Fetched spatial unit: ${spatialUnit.identification.label}`);
+ * if (spatialUnit.coordinates) {
+ *   console.log(`Location: ${spatialUnit.coordinates.latitude}, ${spatialUnit.coordinates.longitude}`);
  * }
  * ```
  *
@@ -32,20 +37,27 @@ import { parseFakeString } from "../string.js";
  * - Context information
  * - License details
  */
-export async function fetchSpatialUnit(uuid: string) {
-  try {
-    const [error, dataRaw] = await fetchByUuid(uuid);
-    if (error !== null) {
-      throw new Error(error);
-    }
+export async function fetchSpatialUnit(
+  uuid: string,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<{ metadata: Metadata; spatialUnit: SpatialUnit }>> {
+  const config = resolveClientOptions(options);
 
-    if (!("spatialUnit" in dataRaw.ochre)) {
-      throw new Error(
-        "Invalid OCHRE data: API response missing 'spatialUnit' key",
-      );
-    }
+  const [error, dataRaw] = await fetchByUuid(uuid, config);
+  if (error !== null) {
+    return [error, null];
+  }
 
-    const spatialUnitItem = parseSpatialUnit(dataRaw.ochre.spatialUnit);
+  if (!("spatialUnit" in dataRaw.ochre)) {
+    return [new OchreMissingKeyError("spatialUnit"), null];
+  }
+
+  try {
+    const spatialUnitItem = parseSpatialUnit(
+      dataRaw.ochre.spatialUnit,
+      false,
+      config,
+    );
 
     const data: Omit<Data, "item"> & { item: SpatialUnit } = {
       uuid: parseFakeString(dataRaw.ochre.uuid),
@@ -54,13 +66,12 @@ export async function fetchSpatialUnit(uuid: string) {
         uuid: dataRaw.ochre.uuidBelongsTo,
         abbreviation: parseFakeString(dataRaw.ochre.belongsTo),
       },
-      metadata: parseMetadata(dataRaw.ochre.metadata),
+      metadata: parseMetadata(dataRaw.ochre.metadata, config),
       item: spatialUnitItem as SpatialUnit,
     };
 
-    return { metadata: data.metadata, spatialUnit: data.item };
+    return [null, { metadata: data.metadata, spatialUnit: data.item }];
   } catch (error) {
-    console.error(error);
-    return null;
+    return [toOchreError(error, ["ochre", "spatialUnit"]), null];
   }
 }
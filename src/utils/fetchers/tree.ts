@@ -1,4 +1,8 @@
-import type { Data, Tree } from "../../types/main.js";
+import type { Data, Metadata, Tree } from "../../types/main.js";
+import type { OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import { resolveClientOptions } from "../config.js";
+import { OchreMissingKeyError, toOchreError } from "../errors.js";
 import { fetchByUuid } from "../fetchers/generic.js";
 import { parseMetadata, parseTree } from "../parse.js";
 import { parseFakeString } from "../string.js";
@@ -7,18 +11,19 @@ import { parseFakeString } from "../string.js";
  * Fetches and parses a tree from the OCHRE API
  *
  * @param uuid - The UUID of the tree to fetch
- * @returns Object containing the parsed tree and its metadata, or null if the fetch/parse fails
+ * @param options - Client options, e.g. a custom base URL, language, signal, timeout or retries
+ * @returns Tuple containing either [null, { metadata, tree }] on success or [OchreError, null] on failure
  *
  * @example
  * ```ts
- * const result = await fetchTree("123e4567-e89b-12d3-a456-426614174000");
- * if (result === null) {
- *   console.error("Failed to fetch tree");
+ * const [error, result] = await fetchTree("123e4567-e89b-12d3-a456-426614174000");
+ * if (error !== null) {
+ *   console.error(`Failed to fetch tree: ${error.message}`);
  *   return;
  * }
- * const { metadata, item } = result;
- * console.log(`Fetched tree: ${item.identification.label}`);
- * console.log(`Contains ${item.items.resources.length} resources`);
+ * const { metadata, tree } = result;
+ * console.log(`Fetched tree: ${tree.identification.label}`);
+ * console.log(`Contains ${tree.items.resources.length} resources`);
  * ```
  *
  * @remarks
@@ -29,18 +34,23 @@ import { parseFakeString } from "../string.js";
  * - Properties and type information
  * - License details
  */
-export async function fetchTree(uuid: string) {
-  try {
-    const [error, dataRaw] = await fetchByUuid(uuid);
-    if (error !== null) {
-      throw new Error(error);
-    }
+export async function fetchTree(
+  uuid: string,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<{ metadata: Metadata; tree: Tree }>> {
+  const config = resolveClientOptions(options);
 
-    if (!("tree" in dataRaw.ochre)) {
-      throw new Error("Invalid OCHRE data: API response missing 'tree' key");
-    }
+  const [error, dataRaw] = await fetchByUuid(uuid, config);
+  if (error !== null) {
+    return [error, null];
+  }
 
-    const tree = parseTree(dataRaw.ochre.tree);
+  if (!("tree" in dataRaw.ochre)) {
+    return [new OchreMissingKeyError("tree"), null];
+  }
+
+  try {
+    const tree = parseTree(dataRaw.ochre.tree, config);
     if (!tree) {
       throw new Error("Invalid OCHRE data: Could not parse tree");
     }
@@ -52,13 +62,12 @@ export async function fetchTree(uuid: string) {
         uuid: dataRaw.ochre.uuidBelongsTo,
         abbreviation: parseFakeString(dataRaw.ochre.belongsTo),
       },
-      metadata: parseMetadata(dataRaw.ochre.metadata),
+      metadata: parseMetadata(dataRaw.ochre.metadata, config),
       item: tree,
     };
 
-    return { metadata: data.metadata, tree: data.item };
+    return [null, { metadata: data.metadata, tree: data.item }];
   } catch (error) {
-    console.error(error);
-    return null;
+    return [toOchreError(error, ["ochre", "tree"]), null];
   }
 }
@@ -1,17 +1,36 @@
 import type { OchreData } from "../../types/internal.raw.d.ts";
+import type { Website } from "../../types/main.js";
+import type { OchreClientOptions } from "../config.js";
+import type { OchreResult } from "../errors.js";
+import { resolveClientOptions } from "../config.js";
+import {
+  OchreHttpError,
+  OchreMissingKeyError,
+  toOchreError,
+} from "../errors.js";
+import {
+  fetchWithRetry,
+  getCachedData,
+  parseJsonResponse,
+  runQueuedRequest,
+  setCachedData,
+} from "../fetchers/generic.js";
 import { parseIdentification, parseWebsite } from "../parse.js";
+import { ochreDataSchema, validateOchreData } from "../schemas.js";
+import { buildXQuery, getXQueryUrl } from "../xquery.js";
 
 /**
  * Fetches and parses a website configuration from the OCHRE API
  *
  * @param abbreviation - The abbreviation identifier for the website
- * @returns The parsed website configuration or null if the fetch/parse fails
+ * @param options - Client options, e.g. a custom base URL, language, signal, timeout or retries
+ * @returns Tuple containing either [null, Website] on success or [OchreError, null] on failure
  *
  * @example
  * ```ts
- * const website = await fetchWebsite("guerrilla-television");
- * if (website === null) {
- *   console.error("Failed to fetch website");
+ * const [error, website] = await fetchWebsite("guerrilla-television");
+ * if (error !== null) {
+ *   console.error(`Failed to fetch website: ${error.message}`);
  *   return;
  * }
  * console.log(`Fetched website: ${website.identification.label}`);
@@ -30,37 +49,72 @@ import { parseIdentification, parseWebsite } from "../parse.js";
  *
  * The abbreviation is case-insensitive and should match the website's configured abbreviation in OCHRE.
  */
-export async function fetchWebsite(abbreviation: string) {
+export async function fetchWebsite(
+  abbreviation: string,
+  options: OchreClientOptions = {},
+): Promise<OchreResult<Website>> {
   try {
-    const response = await fetch(
-      `https://ochre.lib.uchicago.edu/ochre?xquery=for $q in input()/ochre[tree[@type='lesson'][identification/abbreviation='${abbreviation.toLocaleLowerCase("en-US")}']] return $q&format=json`,
+    const config = resolveClientOptions(options);
+    const cacheKey = `website:${abbreviation.toLocaleLowerCase("en-US")}`;
+
+    const url = getXQueryUrl(
+      buildXQuery({
+        category: "tree",
+        type: "lesson",
+        abbreviation: abbreviation.toLocaleLowerCase("en-US"),
+      }),
+      config.baseUrl,
     );
-    if (!response.ok) {
-      throw new Error("Failed to fetch website");
-    }
 
-    const data = (await response.json()) as {
-      result: OchreData | [];
-    };
+    // The cache is read outside of the queue, as revalidating it takes a slot of its own
+    const dataRaw =
+      (await getCachedData(cacheKey, config)) ??
+      (await runQueuedRequest(url, config, async (config) => {
+        const response = await fetchWithRetry(url, config);
+        if (!response.ok) {
+          throw new OchreHttpError(response.status, url);
+        }
+
+        const data = await parseJsonResponse<{ result: OchreData | [] }>(
+          response,
+        );
+        if (!("ochre" in data.result)) {
+          throw new OchreMissingKeyError(
+            "ochre",
+            `Website “${abbreviation}” not found`,
+          );
+        }
+
+        await setCachedData(cacheKey, data.result, config);
+
+        return data.result;
+      }));
+
+    if (config.strict) {
+      validateOchreData(ochreDataSchema, dataRaw);
+    }
 
-    if (!("ochre" in data.result) || !("tree" in data.result.ochre)) {
-      throw new Error("Failed to fetch website");
+    if (!("tree" in dataRaw.ochre)) {
+      throw new OchreMissingKeyError("tree");
     }
 
     const projectIdentification =
-      data.result.ochre.metadata.project?.identification ?
-        parseIdentification(data.result.ochre.metadata.project.identification)
+      dataRaw.ochre.metadata.project?.identification ?
+        parseIdentification(
+          dataRaw.ochre.metadata.project.identification,
+          config,
+        )
       : null;
 
     const website = await parseWebsite(
-      data.result.ochre.tree,
+      dataRaw.ochre.tree,
       projectIdentification?.label ?? "",
-      data.result.ochre.metadata.project?.identification.website ?? null,
+      dataRaw.ochre.metadata.project?.identification.website ?? null,
+      config,
     );
 
-    return website;
+    return [null, website];
   } catch (error) {
-    console.error(error);
-    return null;
+    return [toOchreError(error, ["ochre", "tree"]), null];
   }
 }
@@ -1,4 +1,4 @@
-import type { Property } from "../types/main.js";
+import type { Property, PropertyValue } from "../types/main.js";
 
 /**
  * Options for property search operations
@@ -238,3 +238,246 @@ export function filterProperties(
 
   return false;
 }
+
+/**
+ * Query selecting properties by label path and, optionally, by value
+ */
+export type PropertyQuery = {
+  /**
+   * Labels from the root property to the matched property, separated by ">", e.g. "Material > Type".
+   * A segment matching no nested label may match a value of the property above it instead, e.g. "Material > Stone > Type".
+   * Segments are case-insensitive and support "*" wildcards; a "**" segment matches any number of levels.
+   */
+  path: string;
+  /** Content of a matching value, case-insensitive, supporting "*" wildcards */
+  value?: string;
+  /** UUID of a matching value */
+  uuid?: string;
+  /** Category of a matching value */
+  category?: string;
+  /** Inclusive lower bound of a matching number, integer, date, dateTime or time value */
+  min?: number | Date;
+  /** Inclusive upper bound of a matching number, integer, date, dateTime or time value */
+  max?: number | Date;
+};
+
+/**
+ * Property matched by a property query, along with its ancestors
+ */
+export type PropertyMatch = {
+  property: Property;
+  ancestors: Array<Property>; // From the root property to the parent of the matched property
+  path: Array<string>; // Labels from the root property to the matched property
+  values: Array<PropertyValue>; // Values of the matched property satisfying the query
+};
+
+/**
+ * Converts a path segment or value pattern with "*" wildcards into a case-insensitive regular expression
+ *
+ * @param pattern - Pattern to convert
+ * @returns Regular expression matching the whole string
+ * @internal
+ */
+function getWildcardRegExp(pattern: string): RegExp {
+  const escapedPattern = pattern
+    .trim()
+    .split("*")
+    .map((part) => part.replaceAll(/[$()+.?[\\\]^{|}]/g, String.raw`\$&`))
+    .join(".*");
+
+  return new RegExp(`^${escapedPattern}$`, "i");
+}
+
+/**
+ * Checks whether a typed property value lies within the given inclusive bounds
+ *
+ * @param value - Property value to check
+ * @param min - Inclusive lower bound
+ * @param max - Inclusive upper bound
+ * @returns True if the value is a number or date within the bounds
+ * @internal
+ */
+function isPropertyValueInRange(
+  value: PropertyValue,
+  min: number | Date | undefined,
+  max: number | Date | undefined,
+): boolean {
+  const typedValue =
+    typeof value.value === "number" ? value.value
+    : value.value instanceof Date ? value.value.getTime()
+    : null;
+  if (typedValue === null) {
+    return false;
+  }
+
+  const isDate = value.value instanceof Date;
+  for (const [bound, isValid] of [
+    [min, (bound: number) => typedValue >= bound],
+    [max, (bound: number) => typedValue <= bound],
+  ] as const) {
+    if (bound === undefined) {
+      continue;
+    }
+    if (bound instanceof Date !== isDate) {
+      return false;
+    }
+    if (!isValid(bound instanceof Date ? bound.getTime() : bound)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Queries nested properties by label path and value, returning every match along with its ancestors
+ *
+ * @param properties - Array of properties to query
+ * @param query - Label path, or query with a label path and value filters
+ * @returns Array of matches, in document order
+ *
+ * @example
+ * ```ts
+ * const matches = queryProperties(properties, "Material > Stone > Type");
+ * const dated = queryProperties(properties, {
+ *   path: "** > Date",
+ *   min: new Date("1900-01-01"),
+ * });
+ * for (const { path, values } of dated) {
+ *   console.log(`${path.join(" > ")}: ${values.map((value) => value.content).join(", ")}`);
+ * }
+ * ```
+ */
+export function queryProperties(
+  properties: Array<Property>,
+  query: string | PropertyQuery,
+): Array<PropertyMatch> {
+  const { path, ...valueQuery } =
+    typeof query === "string" ? { path: query } : query;
+  const segments = path
+    .split(">")
+    .map((segment) =>
+      segment.trim() === "**" ? null : getWildcardRegExp(segment),
+    );
+  const valuePattern =
+    valueQuery.value !== undefined ? getWildcardRegExp(valueQuery.value) : null;
+
+  const hasValueQuery =
+    valuePattern !== null ||
+    valueQuery.uuid !== undefined ||
+    valueQuery.category !== undefined ||
+    valueQuery.min !== undefined ||
+    valueQuery.max !== undefined;
+
+  const matches: Array<PropertyMatch> = [];
+  const matchedProperties = new Set<Property>();
+
+  const addMatch = (
+    property: Property,
+    ancestors: Array<Property>,
+    candidateValues: Array<PropertyValue>,
+  ) => {
+    if (matchedProperties.has(property)) {
+      return;
+    }
+
+    const values = candidateValues.filter(
+      (value) =>
+        (valuePattern === null || valuePattern.test(value.content)) &&
+        (valueQuery.uuid === undefined || value.uuid === valueQuery.uuid) &&
+        (valueQuery.category === undefined ||
+          value.category === valueQuery.category) &&
+        ((valueQuery.min === undefined && valueQuery.max === undefined) ||
+          isPropertyValueInRange(value, valueQuery.min, valueQuery.max)),
+    );
+    if (hasValueQuery && values.length === 0) {
+      return;
+    }
+
+    matchedProperties.add(property);
+    matches.push({
+      property,
+      ancestors,
+      path: [...ancestors, property].map((property) => property.label),
+      values,
+    });
+  };
+
+  function visitChildren(
+    property: Property,
+    remainingSegments: Array<RegExp | null>,
+    ancestors: Array<Property>,
+  ) {
+    matchSegments(property.properties, remainingSegments, ancestors);
+
+    // A segment matching no nested label may match a value of the property instead
+    const [valueSegment, ...afterValueSegments] = remainingSegments;
+    if (
+      valueSegment == null ||
+      property.properties.some((property) => valueSegment.test(property.label))
+    ) {
+      return;
+    }
+
+    const matchingValues = property.values.filter((value) =>
+      valueSegment.test(value.content),
+    );
+    if (matchingValues.length === 0) {
+      return;
+    }
+
+    if (afterValueSegments.length === 0) {
+      addMatch(property, ancestors.slice(0, -1), matchingValues);
+    } else {
+      matchSegments(property.properties, afterValueSegments, ancestors);
+    }
+  }
+
+  function matchSegments(
+    properties: Array<Property>,
+    remainingSegments: Array<RegExp | null>,
+    ancestors: Array<Property>,
+  ) {
+    const segment = remainingSegments[0];
+    if (segment === undefined) {
+      return;
+    }
+
+    const nextSegments = remainingSegments.slice(1);
+
+    if (segment === null) {
+      if (nextSegments.length > 0) {
+        matchSegments(properties, nextSegments, ancestors);
+      }
+
+      for (const property of properties) {
+        if (nextSegments.length === 0) {
+          addMatch(property, ancestors, property.values);
+        }
+
+        matchSegments(property.properties, remainingSegments, [
+          ...ancestors,
+          property,
+        ]);
+      }
+
+      return;
+    }
+
+    for (const property of properties) {
+      if (!segment.test(property.label)) {
+        continue;
+      }
+
+      if (nextSegments.length === 0) {
+        addMatch(property, ancestors, property.values);
+      } else {
+        visitChildren(property, nextSegments, [...ancestors, property]);
+      }
+    }
+  }
+
+  matchSegments(properties, segments, []);
+
+  return matches;
+}
@@ -5,6 +5,7 @@ import type {
   OchreContext,
   OchreContextItem,
   OchreCoordinates,
+  OchreData,
   OchreEvent,
   OchreIdentification,
   OchreImage,
@@ -20,6 +21,7 @@ import type {
   OchreNote,
   OchreObservation,
   OchrePeriod,
+  OchrePeriodBoundary,
   OchrePerson,
   OchreProperty,
   OchreResource,
@@ -34,6 +36,7 @@ import type {
   Context,
   ContextItem,
   Coordinates,
+  Data,
   Document,
   Event,
   Footnote,
@@ -43,6 +46,7 @@ import type {
   Interpretation,
   License,
   Link,
+  LocalizedString,
   Metadata,
   NestedConcept,
   NestedResource,
@@ -50,29 +54,55 @@ import type {
   Note,
   Observation,
   Period,
+  PeriodBoundary,
   Person,
   Property,
+  PropertyValue,
   PropertyValueType,
   Resource,
+  RichTextNode,
   Set,
   SpatialUnit,
   Style,
   Tree,
+  TypedPropertyValue,
   WebElement,
   WebElementComponent,
   Webpage,
   Website,
   WebsiteProperties,
 } from "../types/main.js";
+import type {
+  LanguagePreference,
+  OchreClientConfig,
+  ParseOptions,
+} from "../utils/config.js";
 import { z } from "zod";
+import {
+  DEFAULT_PARSE_OPTIONS,
+  getItemUrl,
+  resolveClientOptions,
+} from "../utils/config.js";
+import {
+  addDiagnostic,
+  getItemParseOptions,
+  parseNode,
+  parseNodeAsync,
+} from "../utils/diagnostics.js";
+import { OchreMissingKeyError, toOchreError } from "../utils/errors.js";
+import { resolveDocumentFootnotes } from "../utils/fetchers/footnotes.js";
 import { fetchResource } from "../utils/fetchers/resource.js";
 import { getPropertyValueByLabel } from "../utils/getters.js";
+import { renderMdx } from "../utils/render.js";
 import {
-  parseEmailAndUrl,
+  createRichTextRoot,
+  getItemByLanguage,
+  getPrimaryLanguage,
+  parseEmailAndUrlNodes,
   parseFakeString,
+  parseRichTextItem,
   parseStringContent,
-  parseStringDocumentItem,
-  trimEndLineBreaks,
+  parseStringContentByLanguage,
 } from "../utils/string.js";
 
 /**
@@ -138,28 +168,52 @@ const componentSchema = z.enum(
  * Parses raw identification data into the standardized Identification type
  *
  * @param identification - Raw identification data from OCHRE format
- * @returns Parsed Identification object with label and abbreviation
+ * @param options - Parse options, used to report diagnostics in lenient mode
+ * @returns Parsed Identification object with label and abbreviation, or an empty one if it could not be parsed in lenient mode
+ * @throws {OchreParseError} If the identification could not be parsed outside of lenient mode
  */
 export function parseIdentification(
   identification: OchreIdentification,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): Identification {
   try {
     const returnIdentification: Identification = {
-      label: parseStringContent(identification.label),
+      label: parseStringContent(identification.label, options.language),
       abbreviation: "",
     };
 
     for (const key of Object.keys(identification).filter(
       (key) => key !== "label",
     )) {
-      returnIdentification[key as keyof Identification] = parseStringContent(
-        identification[key as keyof Identification]!,
+      returnIdentification[key as "abbreviation"] = parseStringContent(
+        identification[key as "abbreviation"]!,
+        options.language,
       );
     }
 
+    if (options.localized) {
+      returnIdentification.localized = {
+        label: parseStringContentByLanguage(
+          identification.label,
+          options.language,
+        ),
+        abbreviation:
+          identification.abbreviation ?
+            parseStringContentByLanguage(
+              identification.abbreviation,
+              options.language,
+            )
+          : {},
+      };
+    }
+
     return returnIdentification;
   } catch (error) {
-    console.error(error);
+    if (options.diagnostics == null) {
+      throw toOchreError(error, [...(options.path ?? []), "identification"]);
+    }
+
+    addDiagnostic(options, ["identification"], error);
 
     return {
       label: "",
@@ -188,9 +242,13 @@ export function parseLanguages(
  * Parses raw metadata into the standardized Metadata type
  *
  * @param metadata - Raw metadata from OCHRE format
+ * @param options - Parse options
  * @returns Parsed Metadata object
  */
-export function parseMetadata(metadata: OchreMetadata): Metadata {
+export function parseMetadata(
+  metadata: OchreMetadata,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Metadata {
   let identification: Identification = {
     label: "",
     abbreviation: "",
@@ -201,15 +259,21 @@ export function parseMetadata(metadata: OchreMetadata): Metadata {
       let abbreviation = "";
 
       if (metadata.item.label) {
-        label = parseStringContent(metadata.item.label);
+        label = parseStringContent(metadata.item.label, options.language);
       }
       if (metadata.item.abbreviation) {
-        abbreviation = parseStringContent(metadata.item.abbreviation);
+        abbreviation = parseStringContent(
+          metadata.item.abbreviation,
+          options.language,
+        );
       }
 
       identification = { label, abbreviation };
     } else {
-      identification = parseIdentification(metadata.item.identification);
+      identification = parseIdentification(
+        metadata.item.identification,
+        options,
+      );
     }
   }
 
@@ -218,7 +282,7 @@ export function parseMetadata(metadata: OchreMetadata): Metadata {
     | null = null;
   const baseProjectIdentification =
     metadata.project?.identification ?
-      parseIdentification(metadata.project.identification)
+      parseIdentification(metadata.project.identification, options)
     : null;
   if (baseProjectIdentification) {
     projectIdentification = {
@@ -239,11 +303,11 @@ export function parseMetadata(metadata: OchreMetadata): Metadata {
           maxLength: metadata.item.maxLength ?? null,
         }
       : null,
-    dataset: parseStringContent(metadata.dataset),
-    publisher: parseStringContent(metadata.publisher),
+    dataset: parseStringContent(metadata.dataset, options.language),
+    publisher: parseStringContent(metadata.publisher, options.language),
     languages: parseLanguages(metadata.language),
-    identifier: parseStringContent(metadata.identifier),
-    description: parseStringContent(metadata.description),
+    identifier: parseStringContent(metadata.identifier, options.language),
+    description: parseStringContent(metadata.description, options.language),
   };
 }
 
@@ -321,26 +385,121 @@ export function parseLicense(license: OchreLicense): License | null {
 /**
  * Parses raw person data into the standardized Person type
  *
+ * @param person - Raw person data from OCHRE format
+ * @param options - Parse options
+ * @returns Parsed Person object
+ */
+export function parsePerson(
+  person: OchrePerson,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Person {
+  const itemOptions = getItemParseOptions(options, person.uuid);
+
+  const returnPerson: Person = {
+    uuid: person.uuid,
+    variant: "person",
+    publicationDateTime:
+      person.publicationDateTime != null ?
+        new Date(person.publicationDateTime)
+      : null,
+    type: person.type ?? null,
+    date: person.date != null ? new Date(person.date) : null,
+    context: person.context ? parseContext(person.context) : null,
+    license: person.availability ? parseLicense(person.availability) : null,
+    identification:
+      person.identification ?
+        parseIdentification(person.identification, itemOptions)
+      : null,
+    names:
+      person.identification ?
+        parseStringContentByLanguage(
+          person.identification.label,
+          options.language,
+        )
+      : {},
+    content: person.content != null ? parseFakeString(person.content) : null,
+    description:
+      person.description ?
+        parseStringContent(person.description, options.language)
+      : null,
+    notes:
+      person.notes ?
+        parseNotes(
+          Array.isArray(person.notes.note) ?
+            person.notes.note
+          : [person.notes.note],
+          itemOptions,
+        )
+      : [],
+    events:
+      person.events ?
+        parseEvents(
+          Array.isArray(person.events.event) ?
+            person.events.event
+          : [person.events.event],
+          itemOptions,
+        )
+      : [],
+    periods:
+      person.periods ?
+        parsePeriods(
+          Array.isArray(person.periods.period) ?
+            person.periods.period
+          : [person.periods.period],
+          itemOptions,
+        )
+      : [],
+    links:
+      person.links ?
+        parseLinks(
+          Array.isArray(person.links) ? person.links : [person.links],
+          itemOptions,
+        )
+      : [],
+    properties:
+      person.properties ?
+        parseProperties(
+          Array.isArray(person.properties.property) ?
+            person.properties.property
+          : [person.properties.property],
+          itemOptions,
+        )
+      : [],
+  };
+
+  if (options.localized) {
+    returnPerson.localized = {
+      description:
+        person.description ?
+          parseStringContentByLanguage(person.description, options.language)
+        : {},
+    };
+  }
+
+  return returnPerson;
+}
+
+/**
+ * Parses an array of raw persons into standardized Person objects
+ *
  * @param persons - Raw person data from OCHRE format
+ * @param options - Parse options
  * @returns Array of parsed Person objects
  */
-export function parsePersons(persons: Array<OchrePerson>): Array<Person> {
+export function parsePersons(
+  persons: Array<OchrePerson>,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Array<Person> {
   const returnPersons: Array<Person> = [];
-  for (const person of persons) {
-    returnPersons.push({
-      uuid: person.uuid,
-      publicationDateTime:
-        person.publicationDateTime != null ?
-          new Date(person.publicationDateTime)
-        : null,
-      type: person.type ?? null,
-      date: person.date != null ? new Date(person.date) : null,
-      identification:
-        person.identification ?
-          parseIdentification(person.identification)
-        : null,
-      content: person.content != null ? parseFakeString(person.content) : null,
-    });
+  for (const [index, person] of persons.entries()) {
+    const returnPerson = parseNode(
+      (options) => parsePerson(person, options),
+      options,
+      ["person", index],
+    );
+    if (returnPerson !== null) {
+      returnPersons.push(returnPerson);
+    }
   }
 
   return returnPersons;
@@ -350,9 +509,13 @@ export function parsePersons(persons: Array<OchrePerson>): Array<Person> {
  * Parses an array of raw links into standardized Link objects
  *
  * @param linkRaw - Raw OCHRE link
+ * @param options - Parse options
  * @returns Parsed Link object
  */
-export function parseLink(linkRaw: OchreLink): Array<Link> {
+export function parseLink(
+  linkRaw: OchreLink,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Array<Link> {
   const links =
     "resource" in linkRaw ? linkRaw.resource
     : "concept" in linkRaw ? linkRaw.concept
@@ -391,7 +554,9 @@ export function parseLink(linkRaw: OchreLink): Array<Link> {
       uuid: link.uuid,
       type: link.type ?? null,
       identification:
-        link.identification ? parseIdentification(link.identification) : null,
+        link.identification ?
+          parseIdentification(link.identification, options)
+        : null,
       image: null,
       bibliographies:
         "bibliography" in linkRaw ?
@@ -399,6 +564,7 @@ export function parseLink(linkRaw: OchreLink): Array<Link> {
             Array.isArray(linkRaw.bibliography) ?
               linkRaw.bibliography
             : [linkRaw.bibliography],
+            options,
           )
         : null,
       publicationDateTime:
@@ -433,13 +599,24 @@ export function parseLink(linkRaw: OchreLink): Array<Link> {
  * Parses an array of raw links into standardized Link objects
  *
  * @param links - Array of raw OCHRE links
+ * @param options - Parse options
  * @returns Array of parsed Link objects
  */
-export function parseLinks(links: Array<OchreLink>): Array<Link> {
+export function parseLinks(
+  links: Array<OchreLink>,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Array<Link> {
   const returnLinks: Array<Link> = [];
 
-  for (const link of links) {
-    returnLinks.push(...parseLink(link));
+  for (const [index, link] of links.entries()) {
+    const returnLink = parseNode(
+      (options) => parseLink(link, options),
+      options,
+      ["links", index],
+    );
+    if (returnLink !== null) {
+      returnLinks.push(...returnLink);
+    }
   }
 
   return returnLinks;
@@ -449,42 +626,68 @@ export function parseLinks(links: Array<OchreLink>): Array<Link> {
  * Parses raw document content into a standardized Document structure
  *
  * @param document - Raw document content in OCHRE format
- * @param language - Language code to use for content selection (defaults to "eng")
- * @returns Parsed Document object with content and footnotes
+ * @param language - Language code or chain of language codes to use for content selection (defaults to "eng")
+ * @param options - Parse options, including the base URL used for links and the MDX rendering options
+ * @returns Parsed Document object with content and footnotes, falling back to the first available translation
  */
 export function parseDocument(
   document: OchreStringRichText | Array<OchreStringRichText>,
-  language = "eng",
+  language: LanguagePreference = "eng",
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): Document {
-  let returnString = "";
   const footnotes: Array<Footnote> = [];
   const documentWithLanguage =
     Array.isArray(document) ?
-      document.find((doc) => doc.lang === language)!
+      (getItemByLanguage(document, language) ?? document[0])
     : document;
+  if (!documentWithLanguage) {
+    return { content: "", footnotes };
+  }
 
+  let nodes: Array<RichTextNode>;
   if (
     typeof documentWithLanguage.string === "string" ||
     typeof documentWithLanguage.string === "number" ||
     typeof documentWithLanguage.string === "boolean"
   ) {
-    returnString += parseEmailAndUrl(
-      parseFakeString(documentWithLanguage.string),
-    );
+    nodes = parseEmailAndUrlNodes(parseFakeString(documentWithLanguage.string));
   } else {
     const documentItems =
       Array.isArray(documentWithLanguage.string) ?
         documentWithLanguage.string
       : [documentWithLanguage.string];
 
-    for (const item of documentItems) {
-      returnString += parseStringDocumentItem(item, footnotes);
-    }
+    nodes = documentItems.flatMap((item) =>
+      parseRichTextItem(item, footnotes, options),
+    );
+  }
+
+  const richText = createRichTextRoot(nodes);
+  const returnString = renderMdx(richText, options.mdx);
+
+  const returnDocument: Document = { content: returnString, footnotes };
+  if (options.richText) {
+    returnDocument.richText = richText;
   }
 
-  returnString = trimEndLineBreaks(returnString);
+  if (options.localized) {
+    const documents = Array.isArray(document) ? document : [document];
+    const localizedContent: LocalizedString = {};
+    for (const doc of documents) {
+      localizedContent[doc.lang ?? getPrimaryLanguage(language)] =
+        doc === documentWithLanguage ? returnString : (
+          parseDocument(doc, doc.lang ?? language, {
+            ...options,
+            localized: false,
+            richText: false,
+          }).content
+        );
+    }
+
+    returnDocument.localized = { content: localizedContent };
+  }
 
-  return { content: returnString, footnotes };
+  return returnDocument;
 }
 
 /**
@@ -493,14 +696,19 @@ export function parseDocument(
  * @param image - Raw image data in OCHRE format
  * @returns Parsed Image object or null if invalid
  */
-export function parseImage(image: OchreImage): Image | null {
+export function parseImage(
+  image: OchreImage,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Image | null {
   return {
     publicationDateTime:
       image.publicationDateTime != null ?
         new Date(image.publicationDateTime)
       : null,
     identification:
-      image.identification ? parseIdentification(image.identification) : null,
+      image.identification ?
+        parseIdentification(image.identification, options)
+      : null,
     url:
       image.href ??
       (image.htmlImgSrcPrefix == null && image.content != null ?
@@ -515,68 +723,105 @@ export function parseImage(image: OchreImage): Image | null {
 }
 
 /**
- * Parses raw notes into standardized Note objects
+ * Parses a raw note into a standardized Note object
  *
- * @param notes - Array of raw notes in OCHRE format
- * @param language - Language code for content selection (defaults to "eng")
- * @returns Array of parsed Note objects
+ * @param note - Raw note in OCHRE format
+ * @param options - Parse options, including the language and the base URL used for links
+ * @returns Parsed Note object or null if the note is empty
  */
-export function parseNotes(
-  notes: Array<OchreNote>,
-  language = "eng",
-): Array<Note> {
-  const returnNotes: Array<Note> = [];
-  for (const note of notes) {
-    if (typeof note === "string") {
-      if (note === "") {
-        continue;
-      }
-
-      returnNotes.push({
-        number: -1,
-        title: null,
-        content: note,
-      });
-      continue;
+function parseNote(note: OchreNote, options: ParseOptions): Note | null {
+  const { language } = options;
+  if (typeof note === "string") {
+    if (note === "") {
+      return null;
     }
 
-    let content = "";
+    return {
+      number: -1,
+      title: null,
+      content: note,
+      ...(options.richText ?
+        {
+          richText: createRichTextRoot([
+            { type: "text", value: note, marks: [] },
+          ]),
+        }
+      : {}),
+    };
+  }
 
-    const notesToParse =
-      Array.isArray(note.content) ? note.content : [note.content];
+  const notesToParse =
+    Array.isArray(note.content) ? note.content : [note.content];
 
-    let noteWithLanguage = notesToParse.find((item) => item.lang === language);
-    if (!noteWithLanguage) {
-      noteWithLanguage = notesToParse[0];
-      if (!noteWithLanguage) {
-        throw new Error(
-          `Note does not have a valid content item: ${JSON.stringify(
-            note,
-            null,
-            2,
-          )}`,
+  const noteWithLanguage =
+    getItemByLanguage(notesToParse, language) ?? notesToParse[0];
+  if (!noteWithLanguage) {
+    throw new Error(
+      `Note does not have a valid content item: ${JSON.stringify(
+        note,
+        null,
+        2,
+      )}`,
+    );
+  }
+
+  const parseNoteContent = (noteItem: OchreStringRichText) =>
+    parseDocument(noteItem, noteItem.lang ?? language, {
+      ...options,
+      localized: false,
+    });
+
+  const noteContent = parseNoteContent(noteWithLanguage);
+  const returnNote: Note = {
+    number: note.noteNo,
+    title:
+      noteWithLanguage.title != null ?
+        parseFakeString(noteWithLanguage.title)
+      : null,
+    content: noteContent.content,
+  };
+  if (options.richText) {
+    returnNote.richText = noteContent.richText;
+  }
+
+  if (options.localized) {
+    returnNote.localized = { title: {}, content: {} };
+    for (const noteItem of notesToParse) {
+      const noteLanguage = noteItem.lang ?? getPrimaryLanguage(language);
+      if (noteItem.title != null) {
+        returnNote.localized.title[noteLanguage] = parseFakeString(
+          noteItem.title,
         );
       }
+      returnNote.localized.content[noteLanguage] =
+        parseNoteContent(noteItem).content;
     }
+  }
 
-    if (
-      typeof noteWithLanguage.string === "string" ||
-      typeof noteWithLanguage.string === "number" ||
-      typeof noteWithLanguage.string === "boolean"
-    ) {
-      content = parseEmailAndUrl(parseFakeString(noteWithLanguage.string));
-    } else {
-      content = parseEmailAndUrl(parseDocument(noteWithLanguage).content);
-    }
+  return returnNote;
+}
 
-    returnNotes.push({
-      number: note.noteNo,
-      title:
-        noteWithLanguage.title != null ?
-          parseFakeString(noteWithLanguage.title)
-        : null,
-      content,
-    });
+/**
+ * Parses raw notes into standardized Note objects
+ *
+ * @param notes - Array of raw notes in OCHRE format
+ * @param options - Parse options, including the language and the base URL used for links
+ * @returns Array of parsed Note objects
+ */
+export function parseNotes(
+  notes: Array<OchreNote>,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Array<Note> {
+  const returnNotes: Array<Note> = [];
+  for (const [index, note] of notes.entries()) {
+    const returnNote = parseNode(
+      (options) => parseNote(note, options),
+      options,
+      ["notes", index],
+    );
+    if (returnNote !== null) {
+      returnNotes.push(returnNote);
+    }
   }
 
   return returnNotes;
@@ -604,9 +849,13 @@ export function parseCoordinates(coordinates: OchreCoordinates): Coordinates {
  * Parses a raw observation into a standardized Observation structure
  *
  * @param observation - Raw observation data in OCHRE format
+ * @param options - Parse options
  * @returns Parsed Observation object
  */
-export function parseObservation(observation: OchreObservation): Observation {
+export function parseObservation(
+  observation: OchreObservation,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Observation {
   return {
     number: observation.observationNo,
     date: observation.date != null ? new Date(observation.date) : null,
@@ -622,6 +871,7 @@ export function parseObservation(observation: OchreObservation): Observation {
           Array.isArray(observation.notes.note) ?
             observation.notes.note
           : [observation.notes.note],
+          options,
         )
       : [],
     links:
@@ -630,6 +880,7 @@ export function parseObservation(observation: OchreObservation): Observation {
           Array.isArray(observation.links) ?
             observation.links
           : [observation.links],
+          options,
         )
       : [],
     properties:
@@ -638,6 +889,7 @@ export function parseObservation(observation: OchreObservation): Observation {
           Array.isArray(observation.properties.property) ?
             observation.properties.property
           : [observation.properties.property],
+          options,
         )
       : [],
   };
@@ -647,14 +899,23 @@ export function parseObservation(observation: OchreObservation): Observation {
  * Parses an array of raw observations into standardized Observation objects
  *
  * @param observations - Array of raw observations in OCHRE format
+ * @param options - Parse options
  * @returns Array of parsed Observation objects
  */
 export function parseObservations(
   observations: Array<OchreObservation>,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): Array<Observation> {
   const returnObservations: Array<Observation> = [];
-  for (const observation of observations) {
-    returnObservations.push(parseObservation(observation));
+  for (const [index, observation] of observations.entries()) {
+    const returnObservation = parseNode(
+      (options) => parseObservation(observation, options),
+      options,
+      ["observations", index],
+    );
+    if (returnObservation !== null) {
+      returnObservations.push(returnObservation);
+    }
   }
   return returnObservations;
 }
@@ -665,12 +926,15 @@ export function parseObservations(
  * @param events - Array of raw events in OCHRE format
  * @returns Array of parsed Event objects
  */
-export function parseEvents(events: Array<OchreEvent>): Array<Event> {
+export function parseEvents(
+  events: Array<OchreEvent>,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Array<Event> {
   const returnEvents: Array<Event> = [];
   for (const event of events) {
     returnEvents.push({
       date: event.dateTime != null ? new Date(event.dateTime) : null,
-      label: parseStringContent(event.label),
+      label: parseStringContent(event.label, options.language),
       agent:
         event.agent ?
           {
@@ -684,53 +948,228 @@ export function parseEvents(events: Array<OchreEvent>): Array<Event> {
   return returnEvents;
 }
 
+/**
+ * Matches decimal numbers, rejecting the hexadecimal, exponent and empty forms accepted by `Number()`
+ * @internal
+ */
+const DECIMAL_NUMBER_REGEX = /^[+-]?(?:\d+(?:\.\d+)?|\.\d+)$/;
+
+/**
+ * Matches the UTC offset at the end of a time, e.g. “Z” or “+02:00”
+ * @internal
+ */
+const TIME_OFFSET_REGEX = /(?:z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Coerces the content of a property value to the JavaScript type matching its declared type
+ *
+ * @param type - Declared type of the property value
+ * @param content - Parsed content of the property value
+ * @param uuid - UUID of the item referenced by an IDREF property value
+ * @param options - Parse options, including the base URL used for IDREF links
+ * @returns Typed property value
+ * @throws {TypeError} If the content does not match the declared type
+ *
+ * @remarks
+ * Numbers must be written in decimal notation. Times without a UTC offset are read as UTC.
+ *
+ * @example
+ * ```ts
+ * parseTypedPropertyValue("integer", "42", null);
+ * // Returns: { type: "integer", value: 42 }
+ * ```
+ */
+export function parseTypedPropertyValue(
+  type: PropertyValueType,
+  content: string,
+  uuid: string | null,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): TypedPropertyValue {
+  switch (type) {
+    case "number":
+    case "integer": {
+      const number =
+        DECIMAL_NUMBER_REGEX.test(content.trim()) ?
+          Number(content)
+        : Number.NaN;
+      if (
+        type === "integer" ?
+          !Number.isInteger(number)
+        : !Number.isFinite(number)
+      ) {
+        throw new TypeError(`Expected ${type} value, received “${content}”`);
+      }
+
+      return { type, value: number };
+    }
+    case "boolean": {
+      const normalizedContent = content.trim().toLocaleLowerCase("en-US");
+      if (normalizedContent === "true" || normalizedContent === "yes") {
+        return { type, value: true };
+      }
+      if (normalizedContent === "false" || normalizedContent === "no") {
+        return { type, value: false };
+      }
+
+      throw new TypeError(`Expected boolean value, received “${content}”`);
+    }
+    case "date":
+    case "dateTime":
+    case "time": {
+      const time = content.trim();
+      const date = new Date(
+        type === "time" ?
+          `1970-01-01T${time}${TIME_OFFSET_REGEX.test(time) ? "" : "Z"}`
+        : time,
+      );
+      if (Number.isNaN(date.getTime())) {
+        throw new TypeError(`Expected ${type} value, received “${content}”`);
+      }
+
+      return { type, value: date };
+    }
+    case "IDREF": {
+      if (uuid === null) {
+        throw new TypeError(
+          `Expected IDREF value, received “${content}” without a UUID`,
+        );
+      }
+
+      return {
+        type,
+        value: { uuid, label: content, url: getItemUrl(uuid, options.baseUrl) },
+      };
+    }
+    default: {
+      return { type, value: content };
+    }
+  }
+}
+
+/**
+ * Returns a property value of the declared type without a value, kept when the content does not match that type
+ *
+ * @param type - Declared type of the property value
+ * @param content - Parsed content of the property value
+ * @returns Typed property value whose value is null, or the content for strings
+ * @internal
+ */
+function getUntypedPropertyValue(
+  type: PropertyValueType,
+  content: string,
+): TypedPropertyValue {
+  if (type === "string") {
+    return { type, value: content };
+  }
+
+  return { type, value: null };
+}
+
+/**
+ * Parses a raw property into a standardized Property object
+ *
+ * @param property - Raw property in OCHRE format
+ * @param options - Parse options, including the language used for content selection
+ * @returns Parsed Property object
+ */
+function parseProperty(
+  property: OchreProperty,
+  options: ParseOptions,
+): Property {
+  const { language } = options;
+  const valuesToParse =
+    "value" in property && property.value ?
+      Array.isArray(property.value) ?
+        property.value
+      : [property.value]
+    : [];
+
+  const values = valuesToParse.map((value, index) => {
+    const content = parseStringContent(value, language);
+    const uuid = value.uuid ?? null;
+    const type = value.type as PropertyValueType;
+
+    let typedValue: TypedPropertyValue;
+    try {
+      typedValue = parseTypedPropertyValue(type, content, uuid, options);
+    } catch (error) {
+      if (options.diagnostics != null) {
+        addDiagnostic(options, ["values", index], error);
+      } else if (options.strict) {
+        throw toOchreError(error, [...(options.path ?? []), "values", index]);
+      }
+
+      typedValue = getUntypedPropertyValue(type, content);
+    }
+
+    const returnValue: PropertyValue = {
+      ...typedValue,
+      content,
+      category: value.category !== "value" ? (value.category ?? null) : null,
+      uuid,
+      publicationDateTime:
+        value.publicationDateTime != null ?
+          new Date(value.publicationDateTime)
+        : null,
+    };
+
+    if (options.localized) {
+      returnValue.localized = {
+        content: parseStringContentByLanguage(value, language),
+      };
+    }
+
+    return returnValue;
+  });
+
+  const returnProperty: Property = {
+    label: parseStringContent(property.label, language)
+      .replace(/\s*\.{3}$/, "")
+      .trim(),
+    values,
+    comment:
+      property.comment != null ? parseFakeString(property.comment) : null,
+    properties:
+      property.property ?
+        parseProperties(
+          Array.isArray(property.property) ?
+            property.property
+          : [property.property],
+          options,
+        )
+      : [],
+  };
+
+  if (options.localized) {
+    returnProperty.localized = {
+      label: parseStringContentByLanguage(property.label, language),
+    };
+  }
+
+  return returnProperty;
+}
+
 /**
  * Parses raw properties into standardized Property objects
  *
  * @param properties - Array of raw properties in OCHRE format
- * @param language - Language code for content selection (defaults to "eng")
+ * @param options - Parse options, including the language used for content selection and the diagnostics reported in lenient mode
  * @returns Array of parsed Property objects
  */
 export function parseProperties(
   properties: Array<OchreProperty>,
-  language = "eng",
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): Array<Property> {
   const returnProperties: Array<Property> = [];
-  for (const property of properties) {
-    const valuesToParse =
-      "value" in property && property.value ?
-        Array.isArray(property.value) ?
-          property.value
-        : [property.value]
-      : [];
-
-    const values = valuesToParse.map((value) => ({
-      content: parseStringContent(value),
-      type: value.type as PropertyValueType,
-      category: value.category !== "value" ? (value.category ?? null) : null,
-      uuid: value.uuid ?? null,
-      publicationDateTime:
-        value.publicationDateTime != null ?
-          new Date(value.publicationDateTime)
-        : null,
-    }));
-
-    returnProperties.push({
-      label: parseStringContent(property.label, language)
-        .replace(/\s*\.{3}$/, "")
-        .trim(),
-      values,
-      comment:
-        property.comment != null ? parseFakeString(property.comment) : null,
-      properties:
-        property.property ?
-          parseProperties(
-            Array.isArray(property.property) ?
-              property.property
-            : [property.property],
-          )
-        : [],
-    });
+  for (const [index, property] of properties.entries()) {
+    const returnProperty = parseNode(
+      (options) => parseProperty(property, options),
+      options,
+      ["properties", index],
+    );
+    if (returnProperty !== null) {
+      returnProperties.push(returnProperty);
+    }
   }
 
   return returnProperties;
@@ -740,10 +1179,12 @@ export function parseProperties(
  * Parses raw interpretations into standardized Interpretation objects
  *
  * @param interpretations - Array of raw interpretations in OCHRE format
+ * @param options - Parse options
  * @returns Array of parsed Interpretation objects
  */
 export function parseInterpretations(
   interpretations: Array<OchreInterpretation>,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): Array<Interpretation> {
   const returnInterpretations: Array<Interpretation> = [];
   for (const interpretation of interpretations) {
@@ -756,6 +1197,7 @@ export function parseInterpretations(
             Array.isArray(interpretation.properties.property) ?
               interpretation.properties.property
             : [interpretation.properties.property],
+            options,
           )
         : [],
     });
@@ -800,20 +1242,87 @@ export function parseImageMap(imageMap: OchreImageMap): ImageMap {
  * Parses raw period data into a standardized Period structure
  *
  * @param period - Raw period data in OCHRE format
+ * @param options - Parse options
  * @returns Parsed Period object
  */
-export function parsePeriod(period: OchrePeriod): Period {
-  return {
+export function parsePeriod(
+  period: OchrePeriod,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Period {
+  const itemOptions = getItemParseOptions(options, period.uuid);
+
+  const returnPeriod: Period = {
     uuid: period.uuid,
+    variant: "period",
     publicationDateTime:
       period.publicationDateTime != null ?
         new Date(period.publicationDateTime)
       : null,
     type: period.type ?? null,
     number: period.n ?? null,
-    identification: parseIdentification(period.identification),
+    context: period.context ? parseContext(period.context) : null,
+    license: period.availability ? parseLicense(period.availability) : null,
+    identification: parseIdentification(period.identification, itemOptions),
+    names: parseStringContentByLanguage(
+      period.identification.label,
+      options.language,
+    ),
     description:
-      period.description ? parseStringContent(period.description) : null,
+      period.description ?
+        parseStringContent(period.description, options.language)
+      : null,
+    start: period.startDate ? parsePeriodBoundary(period.startDate) : null,
+    end: period.endDate ? parsePeriodBoundary(period.endDate) : null,
+    notes:
+      period.notes ?
+        parseNotes(
+          Array.isArray(period.notes.note) ?
+            period.notes.note
+          : [period.notes.note],
+          itemOptions,
+        )
+      : [],
+    links:
+      period.links ?
+        parseLinks(
+          Array.isArray(period.links) ? period.links : [period.links],
+          itemOptions,
+        )
+      : [],
+    properties:
+      period.properties ?
+        parseProperties(
+          Array.isArray(period.properties.property) ?
+            period.properties.property
+          : [period.properties.property],
+          itemOptions,
+        )
+      : [],
+  };
+
+  if (options.localized) {
+    returnPeriod.localized = {
+      description:
+        period.description ?
+          parseStringContentByLanguage(period.description, options.language)
+        : {},
+    };
+  }
+
+  return returnPeriod;
+}
+
+/**
+ * Parses a raw period boundary into a standardized PeriodBoundary object
+ *
+ * @param boundary - Raw period boundary in OCHRE format
+ * @returns Parsed PeriodBoundary object
+ */
+function parsePeriodBoundary(boundary: OchrePeriodBoundary): PeriodBoundary {
+  return {
+    year: boundary.year,
+    month: boundary.month ?? null,
+    day: boundary.day ?? null,
   };
 }
 
@@ -821,12 +1330,23 @@ export function parsePeriod(period: OchrePeriod): Period {
  * Parses an array of raw periods into standardized Period objects
  *
  * @param periods - Array of raw periods in OCHRE format
+ * @param options - Parse options
  * @returns Array of parsed Period objects
  */
-export function parsePeriods(periods: Array<OchrePeriod>): Array<Period> {
+export function parsePeriods(
+  periods: Array<OchrePeriod>,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Array<Period> {
   const returnPeriods: Array<Period> = [];
-  for (const period of periods) {
-    returnPeriods.push(parsePeriod(period));
+  for (const [index, period] of periods.entries()) {
+    const returnPeriod = parseNode(
+      (options) => parsePeriod(period, options),
+      options,
+      ["period", index],
+    );
+    if (returnPeriod !== null) {
+      returnPeriods.push(returnPeriod);
+    }
   }
   return returnPeriods;
 }
@@ -835,11 +1355,15 @@ export function parsePeriods(periods: Array<OchrePeriod>): Array<Period> {
  * Parses raw bibliography data into a standardized Bibliography structure
  *
  * @param bibliography - Raw bibliography data in OCHRE format
+ * @param options - Parse options, including the base URL used for links
  * @returns Parsed Bibliography object
  */
 export function parseBibliography(
   bibliography: OchreBibliography,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): Bibliography {
+  const itemOptions = getItemParseOptions(options, bibliography.uuid);
+
   let resource: Bibliography["source"]["resource"] | null = null;
   if (bibliography.source?.resource) {
     resource = {
@@ -851,12 +1375,14 @@ export function parseBibliography(
       type: bibliography.source.resource.type,
       identification: parseIdentification(
         bibliography.source.resource.identification,
+        itemOptions,
       ),
     };
   }
 
   return {
     uuid: bibliography.uuid,
+    variant: "bibliography",
     publicationDateTime:
       bibliography.publicationDateTime != null ?
         new Date(bibliography.publicationDateTime)
@@ -865,11 +1391,11 @@ export function parseBibliography(
     number: bibliography.n ?? null,
     identification:
       bibliography.identification ?
-        parseIdentification(bibliography.identification)
+        parseIdentification(bibliography.identification, itemOptions)
       : null,
     projectIdentification:
       bibliography.project?.identification ?
-        parseIdentification(bibliography.project.identification)
+        parseIdentification(bibliography.project.identification, itemOptions)
       : null,
     context: bibliography.context ? parseContext(bibliography.context) : null,
     citation: {
@@ -903,6 +1429,7 @@ export function parseBibliography(
             ) ?
               bibliography.publicationInfo.publishers.publishers.person
             : [bibliography.publicationInfo.publishers.publishers.person],
+            itemOptions,
           )
         : [],
       startDate:
@@ -925,7 +1452,7 @@ export function parseBibliography(
       resource,
       documentUrl:
         bibliography.sourceDocument ?
-          `https://ochre.lib.uchicago.edu/ochre?uuid=${bibliography.sourceDocument.uuid}&load`
+          getItemUrl(bibliography.sourceDocument.uuid, options.baseUrl, "load")
         : null,
     },
     authors:
@@ -934,6 +1461,7 @@ export function parseBibliography(
           Array.isArray(bibliography.authors.person) ?
             bibliography.authors.person
           : [bibliography.authors.person],
+          itemOptions,
         )
       : [],
     properties:
@@ -942,6 +1470,7 @@ export function parseBibliography(
           Array.isArray(bibliography.properties.property) ?
             bibliography.properties.property
           : [bibliography.properties.property],
+          itemOptions,
         )
       : [],
   };
@@ -951,31 +1480,95 @@ export function parseBibliography(
  * Parses an array of raw bibliographies into standardized Bibliography objects
  *
  * @param bibliographies - Array of raw bibliographies in OCHRE format
+ * @param options - Parse options, including the base URL used for links
  * @returns Array of parsed Bibliography objects
  */
 export function parseBibliographies(
   bibliographies: Array<OchreBibliography>,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): Array<Bibliography> {
   const returnBibliographies: Array<Bibliography> = [];
-  for (const bibliography of bibliographies) {
-    returnBibliographies.push(parseBibliography(bibliography));
+  for (const [index, bibliography] of bibliographies.entries()) {
+    const returnBibliography = parseNode(
+      (options) => parseBibliography(bibliography, options),
+      options,
+      ["bibliography", index],
+    );
+    if (returnBibliography !== null) {
+      returnBibliographies.push(returnBibliography);
+    }
   }
   return returnBibliographies;
 }
 
+/**
+ * Parses the raw items of a tree into standardized items, grouped by category
+ *
+ * @param items - Raw tree items in OCHRE format
+ * @param options - Parse options
+ * @returns Parsed tree items
+ */
+export function parseTreeItems(
+  items: OchreTree["items"],
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Tree["items"] {
+  let resources: Array<Resource> = [];
+  let spatialUnits: Array<SpatialUnit> = [];
+  let concepts: Array<Concept> = [];
+  let periods: Array<Period> = [];
+  if (typeof items !== "string" && "resource" in items) {
+    resources = parseResources(
+      Array.isArray(items.resource) ? items.resource : [items.resource],
+      false,
+      options,
+    ) as Array<Resource>;
+  }
+  if (typeof items !== "string" && "spatialUnit" in items) {
+    spatialUnits = parseSpatialUnits(
+      Array.isArray(items.spatialUnit) ?
+        items.spatialUnit
+      : [items.spatialUnit],
+      false,
+      options,
+    ) as Array<SpatialUnit>;
+  }
+  if (typeof items !== "string" && "concept" in items) {
+    concepts = parseConcepts(
+      Array.isArray(items.concept) ? items.concept : [items.concept],
+      false,
+      options,
+    ) as Array<Concept>;
+  }
+  if (typeof items !== "string" && "period" in items) {
+    periods = parsePeriods(
+      Array.isArray(items.period) ? items.period : [items.period],
+      options,
+    );
+  }
+
+  return { resources, spatialUnits, concepts, periods };
+}
+
 /**
  * Parses a raw tree structure into a standardized Tree object
  *
  * @param tree - Raw tree data in OCHRE format
+ * @param options - Parse options
  * @returns Parsed Tree object or null if invalid
  */
-export function parseTree(tree: OchreTree): Tree | null {
+export function parseTree(
+  tree: OchreTree,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Tree | null {
+  const itemOptions = getItemParseOptions(options, tree.uuid);
+
   let creators: Array<Person> = [];
   if (tree.creators) {
     creators = parsePersons(
       Array.isArray(tree.creators.creator) ?
         tree.creators.creator
       : [tree.creators.creator],
+      itemOptions,
     );
   }
 
@@ -984,61 +1577,26 @@ export function parseTree(tree: OchreTree): Tree | null {
     date = new Date(tree.date);
   }
 
-  let resources: Array<Resource> = [];
-  let spatialUnits: Array<SpatialUnit> = [];
-  let concepts: Array<Concept> = [];
-  let periods: Array<Period> = [];
-  if (typeof tree.items !== "string" && "resource" in tree.items) {
-    resources = parseResources(
-      Array.isArray(tree.items.resource) ?
-        tree.items.resource
-      : [tree.items.resource],
-    ) as Array<Resource>;
-  }
-  if (typeof tree.items !== "string" && "spatialUnit" in tree.items) {
-    spatialUnits = parseSpatialUnits(
-      Array.isArray(tree.items.spatialUnit) ?
-        tree.items.spatialUnit
-      : [tree.items.spatialUnit],
-    ) as Array<SpatialUnit>;
-  }
-  if (typeof tree.items !== "string" && "concept" in tree.items) {
-    concepts = parseConcepts(
-      Array.isArray(tree.items.concept) ?
-        tree.items.concept
-      : [tree.items.concept],
-    ) as Array<Concept>;
-  }
-  if (typeof tree.items !== "string" && "period" in tree.items) {
-    periods = parsePeriods(
-      Array.isArray(tree.items.period) ?
-        tree.items.period
-      : [tree.items.period],
-    );
-  }
+  const items = parseTreeItems(tree.items, itemOptions);
 
   const returnTree: Tree = {
     uuid: tree.uuid,
     variant: "tree",
     publicationDateTime: new Date(tree.publicationDateTime),
-    identification: parseIdentification(tree.identification),
+    identification: parseIdentification(tree.identification, itemOptions),
     creators,
     license: parseLicense(tree.availability),
     date,
     type: tree.type,
     number: tree.n,
-    items: {
-      resources,
-      spatialUnits,
-      concepts,
-      periods,
-    },
+    items,
     properties:
       tree.properties ?
         parseProperties(
           Array.isArray(tree.properties.property) ?
             tree.properties.property
           : [tree.properties.property],
+          itemOptions,
         )
       : [],
   };
@@ -1047,86 +1605,123 @@ export function parseTree(tree: OchreTree): Tree | null {
 }
 
 /**
- * Parses raw set data into a standardized Set structure
+ * Parses the raw items of a set into standardized nested items, grouped by category
  *
- * @param set - Raw set data in OCHRE format
- * @returns Parsed Set object
+ * @param items - Raw set items in OCHRE format
+ * @param options - Parse options
+ * @returns Parsed set items
  */
-export function parseSet(set: OchreSet): Set {
+export function parseSetItems(
+  items: OchreSet["items"],
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Set["items"] {
   let resources: Array<NestedResource> = [];
   let spatialUnits: Array<NestedSpatialUnit> = [];
   let concepts: Array<NestedConcept> = [];
   let periods: Array<Period> = [];
 
-  if (typeof set.items !== "string" && "resource" in set.items) {
+  if (typeof items !== "string" && "resource" in items) {
     resources = parseResources(
-      Array.isArray(set.items.resource) ?
-        set.items.resource
-      : [set.items.resource],
+      Array.isArray(items.resource) ? items.resource : [items.resource],
       true,
+      options,
     ) as Array<NestedResource>;
   }
-  if (typeof set.items !== "string" && "spatialUnit" in set.items) {
+  if (typeof items !== "string" && "spatialUnit" in items) {
     spatialUnits = parseSpatialUnits(
-      Array.isArray(set.items.spatialUnit) ?
-        set.items.spatialUnit
-      : [set.items.spatialUnit],
+      Array.isArray(items.spatialUnit) ?
+        items.spatialUnit
+      : [items.spatialUnit],
       true,
+      options,
     );
   }
-  if (typeof set.items !== "string" && "concept" in set.items) {
+  if (typeof items !== "string" && "concept" in items) {
     concepts = parseConcepts(
-      Array.isArray(set.items.concept) ?
-        set.items.concept
-      : [set.items.concept],
+      Array.isArray(items.concept) ? items.concept : [items.concept],
       true,
+      options,
     ) as Array<NestedConcept>;
   }
-  if (typeof set.items !== "string" && "period" in set.items) {
+  if (typeof items !== "string" && "period" in items) {
     periods = parsePeriods(
-      Array.isArray(set.items.period) ? set.items.period : [set.items.period],
+      Array.isArray(items.period) ? items.period : [items.period],
+      options,
     );
   }
 
-  return {
+  return { resources, spatialUnits, concepts, periods };
+}
+
+/**
+ * Parses raw set data into a standardized Set structure
+ *
+ * @param set - Raw set data in OCHRE format
+ * @param options - Parse options
+ * @returns Parsed Set object
+ */
+export function parseSet(
+  set: OchreSet,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Set {
+  const itemOptions = getItemParseOptions(options, set.uuid);
+
+  const items = parseSetItems(set.items, itemOptions);
+
+  const returnSet: Set = {
     uuid: set.uuid,
     variant: "set",
     publicationDateTime:
       set.publicationDateTime ? new Date(set.publicationDateTime) : null,
     date: set.date != null ? new Date(set.date) : null,
     license: parseLicense(set.availability),
-    identification: parseIdentification(set.identification),
+    identification: parseIdentification(set.identification, itemOptions),
     isSuppressingBlanks: set.suppressBlanks ?? false,
-    description: set.description ? parseStringContent(set.description) : "",
+    description:
+      set.description ?
+        parseStringContent(set.description, options.language)
+      : "",
     creators:
       set.creators ?
         parsePersons(
           Array.isArray(set.creators.creator) ?
             set.creators.creator
           : [set.creators.creator],
+          itemOptions,
         )
       : [],
     type: set.type,
     number: set.n,
-    items: {
-      resources,
-      spatialUnits,
-      concepts,
-      periods,
-    },
+    items,
   };
+
+  if (options.localized) {
+    returnSet.localized = {
+      description:
+        set.description ?
+          parseStringContentByLanguage(set.description, options.language)
+        : {},
+    };
+  }
+
+  return returnSet;
 }
 
 /**
  * Parses raw resource data into a standardized Resource structure
  *
  * @param resource - Raw resource data in OCHRE format
+ * @param isNested - Whether to parse as a nested resource
+ * @param options - Parse options
  * @returns Parsed Resource object
  */
 export function parseResource(
   resource: OchreResource | OchreNestedResource,
   isNested = false,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): Resource | NestedResource {
+  const itemOptions = getItemParseOptions(options, resource.uuid);
+
   const returnResource: Resource = {
     uuid: resource.uuid,
     variant: "resource",
@@ -1149,15 +1744,16 @@ export function parseResource(
       "copyright" in resource && resource.copyright != null ?
         parseFakeString(resource.copyright)
       : null,
-    identification: parseIdentification(resource.identification),
+    identification: parseIdentification(resource.identification, itemOptions),
     date: resource.date != null ? new Date(resource.date) : null,
-    image: resource.image ? parseImage(resource.image) : null,
+    image: resource.image ? parseImage(resource.image, itemOptions) : null,
     creators:
       resource.creators ?
         parsePersons(
           Array.isArray(resource.creators.creator) ?
             resource.creators.creator
           : [resource.creators.creator],
+          itemOptions,
         )
       : [],
     notes:
@@ -1167,12 +1763,17 @@ export function parseResource(
           Array.isArray(resource.notes.note) ?
             resource.notes.note
           : [resource.notes.note],
+          itemOptions,
         )
       : [],
     description:
-      resource.description ? parseStringContent(resource.description) : "",
+      resource.description ?
+        parseStringContent(resource.description, options.language)
+      : "",
     document:
-      resource.document ? parseDocument(resource.document.content) : null,
+      resource.document ?
+        parseDocument(resource.document.content, options.language, itemOptions)
+      : null,
     href: resource.href ?? null,
     imageMap: resource.imagemap ? parseImageMap(resource.imagemap) : null,
     periods:
@@ -1181,12 +1782,14 @@ export function parseResource(
           Array.isArray(resource.periods.period) ?
             resource.periods.period
           : [resource.periods.period],
+          itemOptions,
         )
       : [],
     links:
       resource.links ?
         parseLinks(
           Array.isArray(resource.links) ? resource.links : [resource.links],
+          itemOptions,
         )
       : [],
     reverseLinks:
@@ -1195,6 +1798,7 @@ export function parseResource(
           Array.isArray(resource.reverseLinks) ?
             resource.reverseLinks
           : [resource.reverseLinks],
+          itemOptions,
         )
       : [],
     properties:
@@ -1203,6 +1807,7 @@ export function parseResource(
           Array.isArray(resource.properties.property) ?
             resource.properties.property
           : [resource.properties.property],
+          itemOptions,
         )
       : [],
     citedBibliographies:
@@ -1211,6 +1816,7 @@ export function parseResource(
           Array.isArray(resource.citedBibliography.reference) ?
             resource.citedBibliography.reference
           : [resource.citedBibliography.reference],
+          itemOptions,
         )
       : [],
     resources:
@@ -1220,10 +1826,20 @@ export function parseResource(
             resource.resource
           : [resource.resource],
           true,
+          itemOptions,
         ) as Array<NestedResource>)
       : [],
   };
 
+  if (options.localized) {
+    returnResource.localized = {
+      description:
+        resource.description ?
+          parseStringContentByLanguage(resource.description, options.language)
+        : {},
+    };
+  }
+
   if (isNested) {
     const returnNestedResource: NestedResource & {
       publicationDateTime?: null;
@@ -1252,17 +1868,27 @@ export function parseResource(
  * Parses raw resource data into a standardized Resource structure
  *
  * @param resources - Raw resource data in OCHRE format
+ * @param isNested - Whether to parse as nested resources
+ * @param options - Parse options
  * @returns Parsed Resource object
  */
 export function parseResources(
   resources: Array<OchreResource> | Array<OchreNestedResource>,
   isNested = false,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): Array<Resource> | Array<NestedResource> {
   const returnResources: Array<Resource> | Array<NestedResource> = [];
   const resourcesToParse = Array.isArray(resources) ? resources : [resources];
 
-  for (const resource of resourcesToParse) {
-    returnResources.push(parseResource(resource, isNested) as Resource);
+  for (const [index, resource] of resourcesToParse.entries()) {
+    const returnResource = parseNode(
+      (options) => parseResource(resource, isNested, options),
+      options,
+      ["resource", index],
+    );
+    if (returnResource !== null) {
+      returnResources.push(returnResource as Resource);
+    }
   }
 
   return returnResources;
@@ -1273,12 +1899,16 @@ export function parseResources(
  *
  * @param spatialUnit - Raw spatial unit in OCHRE format
  * @param isNested - Whether to parse as nested spatial units
+ * @param options - Parse options
  * @returns Parsed SpatialUnit or NestedSpatialUnit object
  */
 export function parseSpatialUnit(
   spatialUnit: OchreSpatialUnit | OchreNestedSpatialUnit,
   isNested = false,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): SpatialUnit | NestedSpatialUnit {
+  const itemOptions = getItemParseOptions(options, spatialUnit.uuid);
+
   const returnSpatialUnit: SpatialUnit = {
     uuid: spatialUnit.uuid,
     variant: "spatialUnit",
@@ -1296,11 +1926,15 @@ export function parseSpatialUnit(
       "availability" in spatialUnit && spatialUnit.availability ?
         parseLicense(spatialUnit.availability)
       : null,
-    identification: parseIdentification(spatialUnit.identification),
-    image: spatialUnit.image ? parseImage(spatialUnit.image) : null,
+    identification: parseIdentification(
+      spatialUnit.identification,
+      itemOptions,
+    ),
+    image:
+      spatialUnit.image ? parseImage(spatialUnit.image, itemOptions) : null,
     description:
       spatialUnit.description ?
-        parseStringContent(spatialUnit.description)
+        parseStringContent(spatialUnit.description, options.language)
       : "",
     coordinates:
       spatialUnit.coordinates ?
@@ -1312,8 +1946,10 @@ export function parseSpatialUnit(
           Array.isArray(spatialUnit.observations.observation) ?
             spatialUnit.observations.observation
           : [spatialUnit.observations.observation],
+          itemOptions,
         )
-      : spatialUnit.observation ? [parseObservation(spatialUnit.observation)]
+      : spatialUnit.observation ?
+        [parseObservation(spatialUnit.observation, itemOptions)]
       : [],
     events:
       "events" in spatialUnit && spatialUnit.events ?
@@ -1321,10 +1957,23 @@ export function parseSpatialUnit(
           Array.isArray(spatialUnit.events.event) ?
             spatialUnit.events.event
           : [spatialUnit.events.event],
+          itemOptions,
         )
       : [],
   };
 
+  if (options.localized) {
+    returnSpatialUnit.localized = {
+      description:
+        spatialUnit.description ?
+          parseStringContentByLanguage(
+            spatialUnit.description,
+            options.language,
+          )
+        : {},
+    };
+  }
+
   if (isNested) {
     const returnNestedSpatialUnit: NestedSpatialUnit & {
       publicationDateTime?: null;
@@ -1339,6 +1988,7 @@ export function parseSpatialUnit(
             Array.isArray(spatialUnit.properties.property) ?
               spatialUnit.properties.property
             : [spatialUnit.properties.property],
+            itemOptions,
           )
         : [],
     };
@@ -1357,6 +2007,7 @@ export function parseSpatialUnit(
  *
  * @param spatialUnits - Array of raw spatial units in OCHRE format
  * @param isNested - Whether to parse as nested spatial units
+ * @param options - Parse options
  * @returns Array of parsed SpatialUnit or NestedSpatialUnit objects
  */
 export function parseSpatialUnits<T extends boolean>(
@@ -1364,6 +2015,7 @@ export function parseSpatialUnits<T extends boolean>(
     T extends true ? OchreNestedSpatialUnit : OchreSpatialUnit
   >,
   isNested: T = false as T,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): Array<T extends true ? NestedSpatialUnit : SpatialUnit> {
   const returnSpatialUnits: Array<
     T extends true ? NestedSpatialUnit : SpatialUnit
@@ -1371,12 +2023,17 @@ export function parseSpatialUnits<T extends boolean>(
   const spatialUnitsToParse =
     Array.isArray(spatialUnits) ? spatialUnits : [spatialUnits];
 
-  for (const spatialUnit of spatialUnitsToParse) {
-    returnSpatialUnits.push(
-      parseSpatialUnit(spatialUnit, isNested) as T extends true ?
-        NestedSpatialUnit
-      : SpatialUnit,
+  for (const [index, spatialUnit] of spatialUnitsToParse.entries()) {
+    const returnSpatialUnit = parseNode(
+      (options) => parseSpatialUnit(spatialUnit, isNested, options),
+      options,
+      ["spatialUnit", index],
     );
+    if (returnSpatialUnit !== null) {
+      returnSpatialUnits.push(
+        returnSpatialUnit as T extends true ? NestedSpatialUnit : SpatialUnit,
+      );
+    }
   }
 
   return returnSpatialUnits;
@@ -1387,12 +2044,16 @@ export function parseSpatialUnits<T extends boolean>(
  *
  * @param concept - Raw concept data in OCHRE format
  * @param isNested - Whether to parse as a nested concept
+ * @param options - Parse options
  * @returns Parsed Concept or NestedConcept object
  */
 export function parseConcept(
   concept: OchreConcept | OchreNestedConcept,
   isNested = false,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): Concept | NestedConcept {
+  const itemOptions = getItemParseOptions(options, concept.uuid);
+
   const returnConcept: Concept | NestedConcept = {
     uuid: concept.uuid,
     variant: "concept",
@@ -1409,11 +2070,12 @@ export function parseConcept(
       "context" in concept && concept.context ?
         parseContext(concept.context)
       : null,
-    identification: parseIdentification(concept.identification),
+    identification: parseIdentification(concept.identification, itemOptions),
     interpretations: parseInterpretations(
       Array.isArray(concept.interpretations.interpretation) ?
         concept.interpretations.interpretation
       : [concept.interpretations.interpretation],
+      itemOptions,
     ),
   };
 
@@ -1443,47 +2105,49 @@ export function parseConcept(
  *
  * @param webpageResources - Array of raw webpage resources in OCHRE format
  * @param type - Type of resource to parse ("element" or "page")
+ * @param options - Client configuration used for links and nested fetches
  * @returns Array of parsed WebElement or Webpage objects
  */
 const parseWebpageResources = async <T extends "element" | "page">(
   webpageResources: Array<OchreResource>,
   type: T,
+  options: OchreClientConfig,
 ): Promise<Array<T extends "element" ? WebElement : Webpage>> => {
   const returnElements: Array<T extends "element" ? WebElement : Webpage> = [];
 
   for (const resource of webpageResources) {
-    const resourceProperties =
-      resource.properties ?
-        parseProperties(
-          Array.isArray(resource.properties.property) ?
-            resource.properties.property
-          : [resource.properties.property],
-        )
-      : [];
+    const element = await parseNodeAsync(
+      async (options) => {
+        const resourceProperties =
+          resource.properties ?
+            parseProperties(
+              Array.isArray(resource.properties.property) ?
+                resource.properties.property
+              : [resource.properties.property],
+              options,
+            )
+          : [];
+
+        const resourceProperty = resourceProperties.find(
+          (property) =>
+            property.label === "presentation" &&
+            property.values[0]!.content === type,
+        );
+        if (!resourceProperty) {
+          return null;
+        }
 
-    const resourceProperty = resourceProperties.find(
-      (property) =>
-        property.label === "presentation" &&
-        property.values[0]!.content === type,
+        return type === "element" ?
+            parseWebElement(resource, resourceProperty.properties, options)
+          : parseWebpage(resource, options);
+      },
+      getItemParseOptions(options, resource.uuid),
+      [],
     );
-    if (!resourceProperty) continue;
-
-    if (type === "element") {
-      const element = await parseWebElement(
-        resource,
-        resourceProperty.properties,
-      );
-
+    if (element) {
       returnElements.push(
         element as T extends "element" ? WebElement : Webpage,
       );
-    } else {
-      const webpage = await parseWebpage(resource);
-      if (webpage) {
-        returnElements.push(
-          webpage as T extends "element" ? WebElement : Webpage,
-        );
-      }
     }
   }
 
@@ -1495,32 +2159,97 @@ const parseWebpageResources = async <T extends "element" | "page">(
  *
  * @param concepts - Array of raw concept data in OCHRE format
  * @param isNested - Whether to parse as nested concepts
+ * @param options - Parse options
  * @returns Array of parsed Concept or NestedConcept objects
  */
 export function parseConcepts(
   concepts: Array<OchreConcept> | Array<OchreNestedConcept>,
   isNested = false,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
 ): Array<Concept> | Array<NestedConcept> {
   const returnConcepts: Array<Concept> | Array<NestedConcept> = [];
   const conceptsToParse = Array.isArray(concepts) ? concepts : [concepts];
 
-  for (const concept of conceptsToParse) {
-    returnConcepts.push(parseConcept(concept, isNested) as Concept);
+  for (const [index, concept] of conceptsToParse.entries()) {
+    const returnConcept = parseNode(
+      (options) => parseConcept(concept, isNested, options),
+      options,
+      ["concept", index],
+    );
+    if (returnConcept !== null) {
+      returnConcepts.push(returnConcept as Concept);
+    }
   }
 
   return returnConcepts;
 }
 
+/**
+ * Parses raw OCHRE data into a standardized Data object, detecting the category of its item
+ *
+ * @param data - Raw OCHRE data as returned by the OCHRE API
+ * @param options - Parse options
+ * @returns Parsed Data object
+ * @throws {OchreMissingKeyError} If the data does not contain a supported item
+ */
+export function parseData(
+  data: OchreData,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Data {
+  let item: Data["item"] | null = null;
+  if ("tree" in data.ochre) {
+    item = parseTree(data.ochre.tree, options);
+  } else if ("set" in data.ochre) {
+    item = parseSet(data.ochre.set, options);
+  } else if ("resource" in data.ochre) {
+    item = parseResource(data.ochre.resource, false, options) as Resource;
+  } else if ("spatialUnit" in data.ochre) {
+    item = parseSpatialUnit(
+      data.ochre.spatialUnit,
+      false,
+      options,
+    ) as SpatialUnit;
+  } else if ("concept" in data.ochre) {
+    item = parseConcept(data.ochre.concept, false, options) as Concept;
+  } else if ("bibliography" in data.ochre) {
+    item = parseBibliography(data.ochre.bibliography, options);
+  } else if ("person" in data.ochre) {
+    item = parsePerson(data.ochre.person, options);
+  } else if ("period" in data.ochre) {
+    item = parsePeriod(data.ochre.period, options);
+  }
+
+  if (item === null) {
+    throw new OchreMissingKeyError(
+      "item",
+      "Invalid OCHRE data: API response contains no supported item",
+    );
+  }
+
+  return {
+    uuid: parseFakeString(data.ochre.uuid),
+    publicationDateTime: new Date(data.ochre.publicationDateTime),
+    belongsTo: {
+      uuid: data.ochre.uuidBelongsTo,
+      abbreviation: parseFakeString(data.ochre.belongsTo),
+    },
+    metadata: parseMetadata(data.ochre.metadata, options),
+    item,
+  };
+}
+
 /**
  * Parses raw web element properties into a standardized WebElementComponent structure
  *
  * @param componentProperty - Raw component property data in OCHRE format
  * @param elementResource - Raw element resource data in OCHRE format
+ * @param options - Client configuration used for links and nested fetches
  * @returns Parsed WebElementComponent object
  */
 async function parseWebElementProperties(
   componentProperty: Property,
   elementResource: OchreResource,
+  options: OchreClientConfig,
 ): Promise<WebElementComponent> {
   const componentName = componentSchema.parse(
     componentProperty.values[0]!.content,
@@ -1536,20 +2265,34 @@ async function parseWebElementProperties(
         Array.isArray(elementResource.links) ?
           elementResource.links
         : [elementResource.links],
+        options,
       )
     : [];
   const imageLink = links.find((link) => link.type === "image");
 
   let document: Document | null =
     elementResource.document ?
-      parseDocument(elementResource.document.content)
+      parseDocument(elementResource.document.content, options.language, options)
     : null;
-  if (document === null) {
+  if (document !== null && options.resolveFootnotes) {
+    const [error, resolvedDocument] = await resolveDocumentFootnotes(
+      document,
+      options,
+    );
+    if (error !== null) {
+      throw error;
+    }
+
+    document = resolvedDocument;
+  } else if (document === null) {
     const documentLink = links.find((link) => link.type === "internalDocument");
     if (documentLink) {
-      const documentResource = await fetchResource(documentLink.uuid);
-      if (documentResource === null) {
-        throw new Error("Failed to fetch OCHRE data");
+      const [error, documentResource] = await fetchResource(
+        documentLink.uuid,
+        options,
+      );
+      if (error !== null) {
+        throw error;
       }
 
       document = documentResource.resource.document;
@@ -1648,6 +2391,7 @@ async function parseWebElementProperties(
       properties.isExternal = isExternal;
       properties.label = parseStringContent(
         elementResource.identification.label,
+        options.language,
       );
       break;
     }
@@ -1695,7 +2439,7 @@ async function parseWebElementProperties(
       }
 
       properties.image = {
-        url: `https://ochre.lib.uchicago.edu/ochre?uuid=${imageLink.uuid}&load`,
+        url: getItemUrl(imageLink.uuid, options.baseUrl, "load"),
         label: imageLink.identification?.label ?? null,
         width: imageLink.image?.width ?? 0,
         height: imageLink.image?.height ?? 0,
@@ -1742,6 +2486,7 @@ async function parseWebElementProperties(
               elementResource.resource
             : [elementResource.resource],
             "element",
+            options,
           )
         : [];
 
@@ -1757,6 +2502,7 @@ async function parseWebElementProperties(
               elementResource.resource
             : [elementResource.resource],
             "element",
+            options,
           )
         : [];
 
@@ -1838,7 +2584,7 @@ async function parseWebElementProperties(
       properties.captionLayout = captionLayout;
       properties.content = document.content;
       properties.image = {
-        url: `https://ochre.lib.uchicago.edu/ochre?uuid=${imageLink.uuid}&preview`,
+        url: getItemUrl(imageLink.uuid, options.baseUrl, "preview"),
         label: imageLink.identification?.label ?? null,
         width: imageLink.image?.width ?? 0,
         height: imageLink.image?.height ?? 0,
@@ -1864,13 +2610,18 @@ async function parseWebElementProperties(
  *
  * @param elementResource - Raw element resource data in OCHRE format
  * @param elementProperties - Array of raw element properties in OCHRE format
+ * @param options - Client configuration used for links and nested fetches
  * @returns Parsed WebElement object
  */
 async function parseWebElement(
   elementResource: OchreResource,
   elementProperties: Array<Property>,
+  options: OchreClientConfig,
 ): Promise<WebElement> {
-  const identification = parseIdentification(elementResource.identification);
+  const identification = parseIdentification(
+    elementResource.identification,
+    options,
+  );
 
   const componentProperty = elementProperties.find(
     (property) => property.label === "component",
@@ -1884,6 +2635,7 @@ async function parseWebElement(
   const properties = await parseWebElementProperties(
     componentProperty,
     elementResource,
+    options,
   );
 
   const elementResourceProperties =
@@ -1892,6 +2644,7 @@ async function parseWebElement(
         Array.isArray(elementResource.properties.property) ?
           elementResource.properties.property
         : [elementResource.properties.property],
+        options,
       )
     : [];
 
@@ -1920,10 +2673,12 @@ async function parseWebElement(
  * Parses raw webpage data into a standardized Webpage structure
  *
  * @param webpageResource - Raw webpage resource data in OCHRE format
+ * @param options - Client configuration used for links and nested fetches
  * @returns Parsed Webpage object
  */
 async function parseWebpage(
   webpageResource: OchreResource,
+  options: OchreClientConfig,
 ): Promise<Webpage | null> {
   const webpageProperties =
     webpageResource.properties ?
@@ -1931,6 +2686,7 @@ async function parseWebpage(
         Array.isArray(webpageResource.properties.property) ?
           webpageResource.properties.property
         : [webpageResource.properties.property],
+        options,
       )
     : [];
 
@@ -1943,7 +2699,10 @@ async function parseWebpage(
     return null;
   }
 
-  const identification = parseIdentification(webpageResource.identification);
+  const identification = parseIdentification(
+    webpageResource.identification,
+    options,
+  );
 
   // TODO: Remove this "/" check once OCHRE is updated
   const slug = webpageResource.slug === "/" ? "" : webpageResource.slug;
@@ -1957,6 +2716,7 @@ async function parseWebpage(
         Array.isArray(webpageResource.links) ?
           webpageResource.links
         : [webpageResource.links],
+        options,
       )
     : [];
   const imageLink = links.find(
@@ -1970,6 +2730,7 @@ async function parseWebpage(
           webpageResource.resource
         : [webpageResource.resource],
         "element",
+        options,
       )
     : [];
 
@@ -1980,6 +2741,7 @@ async function parseWebpage(
           webpageResource.resource
         : [webpageResource.resource],
         "page",
+        options,
       )
     : [];
 
@@ -2041,7 +2803,7 @@ async function parseWebpage(
       variant,
       backgroundImageUrl:
         imageLink ?
-          `https://ochre.lib.uchicago.edu/ochre?uuid=${imageLink.uuid}&preview`
+          getItemUrl(imageLink.uuid, options.baseUrl, "preview")
         : null,
       cssStyles,
     },
@@ -2053,17 +2815,23 @@ async function parseWebpage(
  * Parses raw webpage resources into an array of Webpage objects
  *
  * @param webpageResources - Array of raw webpage resources in OCHRE format
+ * @param options - Client configuration used for links and nested fetches
  * @returns Array of parsed Webpage objects
  */
 async function parseWebpages(
   webpageResources: Array<OchreResource>,
+  options: OchreClientConfig,
 ): Promise<Array<Webpage>> {
   const returnPages: Array<Webpage> = [];
   const pagesToParse =
     Array.isArray(webpageResources) ? webpageResources : [webpageResources];
 
   for (const page of pagesToParse) {
-    const webpage = await parseWebpage(page);
+    const webpage = await parseNodeAsync(
+      (options) => parseWebpage(page, options),
+      getItemParseOptions(options, page.uuid),
+      [],
+    );
     if (webpage) {
       returnPages.push(webpage);
     }
@@ -2076,12 +2844,14 @@ async function parseWebpages(
  * Parses raw website properties into a standardized WebsiteProperties structure
  *
  * @param properties - Array of raw website properties in OCHRE format
+ * @param options - Parse options, including the base URL used for links
  * @returns Parsed WebsiteProperties object
  */
 function parseWebsiteProperties(
   properties: Array<OchreProperty>,
+  options: ParseOptions,
 ): WebsiteProperties {
-  const mainProperties = parseProperties(properties);
+  const mainProperties = parseProperties(properties, options);
   const websiteProperties = mainProperties.find(
     (property) => property.label === "presentation",
   )?.properties;
@@ -2170,25 +2940,36 @@ function parseWebsiteProperties(
     isSidebarDisplayed,
     searchCollectionUuid,
     logoUrl:
-      logoUuid !== null ?
-        `https://ochre.lib.uchicago.edu/ochre?uuid=${logoUuid}&load`
-      : null,
+      logoUuid !== null ? getItemUrl(logoUuid, options.baseUrl, "load") : null,
   };
 }
 
+/**
+ * Parses a raw website tree into a standardized Website structure
+ *
+ * @param websiteTree - Raw website tree in OCHRE format
+ * @param projectName - Name of the project the website belongs to
+ * @param website - URL of the project website, if any
+ * @param options - Client configuration used for links and nested fetches
+ * @returns Parsed Website object
+ */
 export async function parseWebsite(
   websiteTree: OchreTree,
   projectName: FakeString,
   website: FakeString | null,
+  options: OchreClientConfig = resolveClientOptions(),
 ): Promise<Website> {
   if (!websiteTree.properties) {
     throw new Error("Website properties not found");
   }
 
+  const websiteOptions = getItemParseOptions(options, websiteTree.uuid);
+
   const properties = parseWebsiteProperties(
     Array.isArray(websiteTree.properties.property) ?
       websiteTree.properties.property
     : [websiteTree.properties.property],
+    websiteOptions,
   );
 
   if (
@@ -2203,7 +2984,7 @@ export async function parseWebsite(
       websiteTree.items.resource
     : [websiteTree.items.resource];
 
-  const pages = await parseWebpages(resources);
+  const pages = await parseWebpages(resources, options);
 
   const sidebarElements: Array<WebElement> = [];
   const sidebar = resources.find((resource) => {
@@ -2213,6 +2994,7 @@ export async function parseWebsite(
           Array.isArray(resource.properties.property) ?
             resource.properties.property
           : [resource.properties.property],
+          options,
         )
       : [];
     return resourceProperties.some(
@@ -2232,24 +3014,34 @@ export async function parseWebsite(
       : [];
 
     for (const resource of sidebarResources) {
-      const sidebarResourceProperties =
-        resource.properties ?
-          parseProperties(
-            Array.isArray(resource.properties.property) ?
-              resource.properties.property
-            : [resource.properties.property],
-          )
-        : [];
-
-      const element = await parseWebElement(
-        resource,
-        sidebarResourceProperties.find(
-          (property) =>
-            property.label === "presentation" &&
-            property.values[0]?.content === "element",
-        )?.properties ?? [],
+      const element = await parseNodeAsync(
+        (options) => {
+          const sidebarResourceProperties =
+            resource.properties ?
+              parseProperties(
+                Array.isArray(resource.properties.property) ?
+                  resource.properties.property
+                : [resource.properties.property],
+                options,
+              )
+            : [];
+
+          return parseWebElement(
+            resource,
+            sidebarResourceProperties.find(
+              (property) =>
+                property.label === "presentation" &&
+                property.values[0]?.content === "element",
+            )?.properties ?? [],
+            options,
+          );
+        },
+        getItemParseOptions(options, resource.uuid),
+        [],
       );
-      sidebarElements.push(element);
+      if (element) {
+        sidebarElements.push(element);
+      }
     }
   }
 
@@ -2259,7 +3051,10 @@ export async function parseWebsite(
       websiteTree.publicationDateTime ?
         new Date(websiteTree.publicationDateTime)
       : null,
-    identification: parseIdentification(websiteTree.identification),
+    identification: parseIdentification(
+      websiteTree.identification,
+      websiteOptions,
+    ),
     project: {
       name: parseFakeString(projectName),
       website: website !== null ? parseFakeString(website) : null,
@@ -2270,6 +3065,7 @@ export async function parseWebsite(
           Array.isArray(websiteTree.creators.creator) ?
             websiteTree.creators.creator
           : [websiteTree.creators.creator],
+          options,
         )
       : [],
     license: parseLicense(websiteTree.availability),
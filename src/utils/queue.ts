@@ -0,0 +1,171 @@
+/**
+ * Queue limiting how many requests run at once and coalescing identical in-flight requests
+ */
+export type RequestQueue = {
+  /** Maximum number of tasks running at once */
+  concurrency: number;
+  /**
+   * Runs a task once a slot is free. Tasks sharing a non-null key while one is
+   * still in flight share the same promise instead of running again.
+   *
+   * The task receives a signal of its own, aborted once every caller sharing it
+   * has aborted. Aborting the signal of one caller only rejects that caller.
+   */
+  run: <T>(
+    key: string | null,
+    task: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal | null,
+  ) => Promise<T>;
+};
+
+/**
+ * Task in flight, with the number of callers still waiting for it
+ * @internal
+ */
+type InFlightTask = {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+};
+
+/**
+ * Creates a request queue with the given concurrency limit
+ *
+ * @param concurrency - Maximum number of tasks running at once (defaults to no limit)
+ * @returns Request queue
+ *
+ * @example
+ * ```ts
+ * const queue = createRequestQueue(4);
+ * const [first, second] = await Promise.all([
+ *   queue.run("a", (signal) => fetchSomething("a", signal)),
+ *   queue.run("a", (signal) => fetchSomething("a", signal)), // Shares the first promise
+ * ]);
+ * ```
+ */
+export function createRequestQueue(
+  concurrency = Number.POSITIVE_INFINITY,
+): RequestQueue {
+  if (!(concurrency >= 1)) {
+    throw new Error(`Invalid concurrency provided: “${concurrency}”`);
+  }
+
+  const inFlight = new Map<string, InFlightTask>();
+  const waiting: Array<() => void> = [];
+  let active = 0;
+
+  const acquire = (): Promise<void> => {
+    if (active < concurrency) {
+      active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      waiting.push(resolve);
+    });
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      // Hand the slot over to the next task without freeing it
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  const start = (
+    key: string | null,
+    task: (signal: AbortSignal) => Promise<unknown>,
+  ): InFlightTask => {
+    const controller = new AbortController();
+    const promise = (async () => {
+      await acquire();
+      try {
+        // Every caller may have aborted while waiting for a slot
+        controller.signal.throwIfAborted();
+
+        return await task(controller.signal);
+      } finally {
+        release();
+      }
+    })();
+
+    const inFlightTask = { promise, controller, waiters: 0 };
+
+    if (key !== null) {
+      inFlight.set(key, inFlightTask);
+
+      const removeFromInFlight = () => {
+        if (inFlight.get(key) === inFlightTask) {
+          inFlight.delete(key);
+        }
+      };
+      controller.signal.addEventListener("abort", removeFromInFlight, {
+        once: true,
+      });
+      void promise.then(removeFromInFlight, removeFromInFlight);
+    } else {
+      // Rejections are surfaced to the callers, not to the queue
+      promise.catch(() => {});
+    }
+
+    return inFlightTask;
+  };
+
+  const wait = <T>(
+    inFlightTask: InFlightTask,
+    signal: AbortSignal | null,
+  ): Promise<T> => {
+    const promise = inFlightTask.promise as Promise<T>;
+    inFlightTask.waiters++;
+    if (signal === null) {
+      return promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        inFlightTask.waiters--;
+        if (inFlightTask.waiters === 0) {
+          inFlightTask.controller.abort(signal.reason);
+        }
+
+        const reason: unknown = signal.reason;
+        reject(reason instanceof Error ? reason : new Error(String(reason)));
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener("abort", onAbort, { once: true });
+      void promise
+        .finally(() => {
+          signal.removeEventListener("abort", onAbort);
+        })
+        .then(resolve, reject);
+    });
+  };
+
+  return {
+    concurrency,
+    run: <T>(
+      key: string | null,
+      task: (signal: AbortSignal) => Promise<T>,
+      signal: AbortSignal | null = null,
+    ): Promise<T> => {
+      const inFlightTask =
+        (key !== null ? inFlight.get(key) : undefined) ?? start(key, task);
+
+      return wait<T>(inFlightTask, signal);
+    },
+  };
+}
+
+/**
+ * Queue shared by all fetchers that are not given a concurrency limit, coalescing identical requests
+ * @internal
+ */
+export const DEFAULT_REQUEST_QUEUE = createRequestQueue();
@@ -0,0 +1,788 @@
+import type {
+  Document,
+  Note,
+  RichTextFootnoteReference,
+  RichTextImage,
+  RichTextLink,
+  RichTextMark,
+  RichTextNode,
+  RichTextRoot,
+  RichTextText,
+} from "../types/main.js";
+
+/**
+ * Names of the MDX components rendered for links, tooltips, footnote references and inline images
+ */
+export type MdxComponentNames = {
+  externalLink: string;
+  tooltip: string;
+  footnote: string;
+  inlineImage: string;
+};
+
+/**
+ * Options for rendering rich text as MDX
+ */
+export type MdxRenderOptions = {
+  /** Component names, replacing `ExternalLink`, `TooltipSpan`, `Footnote` and `InlineImage` */
+  components?: Partial<MdxComponentNames>;
+  /** URL resolvers by link variant, e.g. internal routes; returning null renders the link as a tooltip (defaults to the URL of the link) */
+  linkUrls?: Partial<
+    Record<RichTextLink["variant"], (link: RichTextLink) => string | null>
+  >;
+};
+
+/**
+ * Options for rendering rich text as HTML
+ */
+export type HtmlRenderOptions = {
+  /** Builds the URL of a link, or null to render it as a `<span>` (defaults to the URL of the link) */
+  linkUrl?: (link: RichTextLink) => string | null;
+  /** Builds the class of a link, or null for none */
+  linkClassName?: (link: RichTextLink) => string | null;
+  /** Builds the URL of a footnote reference (defaults to `#footnote-<uuid>`) */
+  footnoteUrl?: (footnote: RichTextFootnoteReference) => string;
+  /** Builds the source URL of an inline image (defaults to the URL of the image) */
+  imageUrl?: (image: RichTextImage) => string;
+};
+
+/**
+ * Options for rendering content as plain text
+ */
+export type PlainTextOptions = {
+  /** Keep footnote references as “[label]” and append the footnotes of documents (defaults to false) */
+  footnotes?: boolean;
+  /** Keep line breaks, otherwise they are replaced by spaces (defaults to true) */
+  lineBreaks?: boolean;
+  /** Maximum length of the text, truncated on a word boundary */
+  maxLength?: number;
+  /** String appended to truncated text (defaults to "…") */
+  ellipsis?: string;
+  /** Names of the MDX components of parsed strings, when rendered with custom `mdx` component names */
+  components?: Partial<MdxComponentNames>;
+};
+
+/**
+ * Default names of the MDX components
+ */
+const DEFAULT_MDX_COMPONENTS: MdxComponentNames = {
+  externalLink: "ExternalLink",
+  tooltip: "TooltipSpan",
+  footnote: "Footnote",
+  inlineImage: "InlineImage",
+};
+
+/**
+ * Escapes the characters MDX would interpret as JSX or expressions
+ *
+ * @param string - Text to escape
+ * @returns Escaped text
+ * @internal
+ */
+function escapeMdx(string: string): string {
+  return string.replaceAll("<", String.raw`\<`).replaceAll("{", String.raw`\{`);
+}
+
+/**
+ * Escapes a string for use in a double-quoted MDX attribute
+ *
+ * @param string - Attribute value to escape
+ * @returns Escaped attribute value
+ * @internal
+ */
+function escapeMdxAttribute(string: string): string {
+  return escapeMdx(string).replaceAll('"', "&quot;");
+}
+
+/**
+ * Wraps a rendered string in the Markdown syntax of formatting marks
+ *
+ * @param string - Rendered MDX string
+ * @param marks - Formatting marks, innermost first
+ * @returns Markdown string
+ * @internal
+ */
+function applyMdxMarks(string: string, marks: Array<RichTextMark>): string {
+  let returnString = string;
+
+  for (const mark of marks) {
+    switch (mark) {
+      case "bold": {
+        returnString = `**${returnString}**`;
+        break;
+      }
+      case "italic": {
+        returnString = `*${returnString}*`;
+        break;
+      }
+      case "underline": {
+        returnString = `_${returnString}_`;
+        break;
+      }
+      case "superscript": {
+        returnString = `<sup>${returnString}</sup>`;
+        break;
+      }
+      case "subscript": {
+        returnString = `<sub>${returnString}</sub>`;
+        break;
+      }
+      case "strikethrough": {
+        returnString = `~~${returnString}~~`;
+        break;
+      }
+      case "smallCaps": {
+        returnString = `<span style={{ fontVariant: "small-caps" }}>${returnString}</span>`;
+        break;
+      }
+      default: {
+        returnString = `<span data-rend="${escapeMdxAttribute(mark)}">${returnString}</span>`;
+        break;
+      }
+    }
+  }
+
+  return returnString;
+}
+
+/**
+ * Renders a text run, wrapping it in the Markdown syntax of its marks
+ *
+ * @param node - Text run to render
+ * @param isEscaped - Whether to escape MDX syntax in the text
+ * @returns Markdown string
+ * @internal
+ */
+function renderMdxText(node: RichTextText, isEscaped: boolean): string {
+  return applyMdxMarks(
+    isEscaped ? escapeMdx(node.value) : node.value,
+    node.marks,
+  );
+}
+
+/**
+ * Renders a link as an `<ExternalLink>`, or as a `<TooltipSpan>` if the linked item is not published
+ *
+ * @param node - Link to render
+ * @param components - Names of the MDX components
+ * @param options - URL resolvers by link variant
+ * @returns MDX string
+ * @internal
+ */
+function renderMdxLink(
+  node: RichTextLink,
+  components: MdxComponentNames,
+  options: MdxRenderOptions,
+): string {
+  const isItemLink = node.uuid !== null;
+  const children = node.children
+    .map((child) => renderMdxText(child, isItemLink))
+    .join("");
+  const attributes = [
+    isItemLink ? `type="${node.itemType ?? node.variant}"` : "",
+    node.title !== null ? `content="${escapeMdxAttribute(node.title)}"` : "",
+  ]
+    .filter(Boolean)
+    .map((attribute) => ` ${attribute}`)
+    .join("");
+
+  const linkUrl = options.linkUrls?.[node.variant];
+  const url = linkUrl ? linkUrl(node) : node.url;
+  if (url === null) {
+    return `<${components.tooltip}${attributes}>${children}</${components.tooltip}>`;
+  }
+
+  // Slashes of item URLs are escaped for MDX
+  const href = isItemLink ? url.replaceAll("//", String.raw`\/\/`) : url;
+
+  return `<${components.externalLink} href="${href.replaceAll('"', "&quot;")}"${attributes}>${children}</${components.externalLink}>`;
+}
+
+/**
+ * Renders a rich text node as MDX
+ *
+ * @param node - Node to render
+ * @param components - Names of the MDX components
+ * @param options - URL resolvers by link variant
+ * @returns MDX string
+ * @internal
+ */
+function renderMdxNode(
+  node: RichTextNode,
+  components: MdxComponentNames,
+  options: MdxRenderOptions,
+): string {
+  switch (node.type) {
+    case "text": {
+      return renderMdxText(node, false);
+    }
+    case "break": {
+      // Standalone breaks are Markdown hard line breaks
+      return node.standalone ? "  \n" : "\n<br />";
+    }
+    case "link": {
+      return renderMdxLink(node, components, options);
+    }
+    case "image": {
+      return `<${components.inlineImage} uuid="${node.uuid}"${
+        node.alt !== null ? ` content="${escapeMdxAttribute(node.alt)}"` : ""
+      } height={${node.height?.toString() ?? "null"}} width={${node.width?.toString() ?? "null"}} />`;
+    }
+    case "footnoteReference": {
+      return ` <${components.footnote} uuid="${node.identifier}"${
+        node.label ? ` label="${escapeMdxAttribute(node.label)}"` : ""
+      }${node.title !== null ? ` content="${escapeMdxAttribute(node.title)}"` : ""} />`;
+    }
+  }
+}
+
+/**
+ * Returns the formatting marks of a node that can be applied to it as a whole
+ *
+ * @param node - Rich text node
+ * @returns Marks of a text run, or the marks shared by every child of a link
+ * @internal
+ */
+function getMdxMarks(node: RichTextNode): Array<RichTextMark> {
+  switch (node.type) {
+    case "text": {
+      return node.marks;
+    }
+    case "link": {
+      const marks = node.children[0]?.marks ?? [];
+      return (
+          node.children.every(
+            (child) => child.marks.join(" ") === marks.join(" "),
+          )
+        ) ?
+          marks
+        : [];
+    }
+    default: {
+      return [];
+    }
+  }
+}
+
+/**
+ * Removes the formatting marks of a node, once they are applied around it
+ *
+ * @param node - Rich text node
+ * @returns Node without marks
+ * @internal
+ */
+function removeMdxMarks(node: RichTextNode): RichTextNode {
+  switch (node.type) {
+    case "text": {
+      return { ...node, marks: [] };
+    }
+    case "link": {
+      return {
+        ...node,
+        children: node.children.map((child) => ({ ...child, marks: [] })),
+      };
+    }
+    default: {
+      return node;
+    }
+  }
+}
+
+/**
+ * Renders a rich text tree as the MDX string used in the `content` of documents and notes
+ *
+ * @param richText - Rich text tree or nodes to render
+ * @param options - Component names and URL resolvers by link variant
+ * @returns MDX string with Markdown formatting and `<ExternalLink>`, `<TooltipSpan>`, `<InlineImage>` and `<Footnote>` components
+ *
+ * @example
+ * ```ts
+ * renderMdx({
+ *   type: "root",
+ *   children: [{ type: "text", value: "Bronze", marks: ["bold"] }],
+ * });
+ * // Returns: "**Bronze**"
+ * ```
+ */
+export function renderMdx(
+  richText: RichTextRoot | Array<RichTextNode>,
+  options: MdxRenderOptions = {},
+): string {
+  const nodes = Array.isArray(richText) ? richText : richText.children;
+  const components = { ...DEFAULT_MDX_COMPONENTS, ...options.components };
+
+  // Consecutive nodes with the same marks, e.g. a bold run containing a URL, are wrapped as a whole
+  const runs: Array<{
+    marks: Array<RichTextMark>;
+    nodes: Array<RichTextNode>;
+  }> = [];
+  for (const node of nodes) {
+    const marks = getMdxMarks(node);
+    const previousRun = runs.at(-1);
+    if (
+      previousRun !== undefined &&
+      marks.length > 0 &&
+      previousRun.marks.join(" ") === marks.join(" ")
+    ) {
+      previousRun.nodes.push(removeMdxMarks(node));
+      continue;
+    }
+
+    runs.push({ marks, nodes: [removeMdxMarks(node)] });
+  }
+
+  return runs
+    .map((run) =>
+      applyMdxMarks(
+        run.nodes
+          .map((node) => renderMdxNode(node, components, options))
+          .join(""),
+        run.marks,
+      ),
+    )
+    .join("");
+}
+
+/**
+ * Escapes a string for use in HTML text and double-quoted attributes
+ *
+ * @param string - Text to escape
+ * @returns Escaped text
+ * @internal
+ */
+function escapeHtml(string: string): string {
+  return string
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+/**
+ * Returns a URL that is safe to use in an HTML attribute
+ *
+ * @param url - URL to check
+ * @returns The URL, with `https://` added to bare `www.` hosts, or null if its scheme is not allowed
+ * @internal
+ */
+function getSafeUrl(url: string): string | null {
+  const trimmedUrl = url.trim();
+
+  // Browsers ignore whitespace and control characters within the scheme, e.g. "java\tscript:"
+  const scheme = /^([a-z][\d+.a-z-]*):/i.exec(
+    trimmedUrl.replaceAll(/[\s\p{Cc}]/gu, ""),
+  )?.[1];
+  if (scheme !== undefined) {
+    return ["http", "https", "mailto"].includes(scheme.toLowerCase()) ?
+        trimmedUrl
+      : null;
+  }
+
+  return /^www\./i.test(trimmedUrl) ? `https://${trimmedUrl}` : trimmedUrl;
+}
+
+/**
+ * Renders HTML attributes, skipping null values
+ *
+ * @param attributes - Attribute values by name
+ * @returns Escaped attributes, each preceded by a space
+ * @internal
+ */
+function renderHtmlAttributes(
+  attributes: Record<string, string | number | null>,
+): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== null)
+    .map(([name, value]) => ` ${name}="${escapeHtml(String(value))}"`)
+    .join("");
+}
+
+/**
+ * Returns the HTML element rendering a formatting mark
+ *
+ * @param mark - Formatting mark
+ * @returns Name of the HTML element
+ * @internal
+ */
+function getHtmlMarkElement(mark: RichTextMark): string {
+  switch (mark) {
+    case "bold": {
+      return "strong";
+    }
+    case "italic": {
+      return "em";
+    }
+    case "underline": {
+      return "u";
+    }
+    case "superscript": {
+      return "sup";
+    }
+    case "subscript": {
+      return "sub";
+    }
+    case "strikethrough": {
+      return "s";
+    }
+    default: {
+      return "span";
+    }
+  }
+}
+
+/**
+ * Returns the opening HTML tag rendering a formatting mark
+ *
+ * @param mark - Formatting mark
+ * @returns Opening tag, with a style for small caps or a `data-rend` attribute for generic marks
+ * @internal
+ */
+function getHtmlMarkTag(mark: RichTextMark): string {
+  const element = getHtmlMarkElement(mark);
+  if (element !== "span") {
+    return `<${element}>`;
+  }
+
+  return mark === "smallCaps" ?
+      `<span style="font-variant: small-caps">`
+    : `<span${renderHtmlAttributes({ "data-rend": mark })}>`;
+}
+
+/**
+ * Renders a text run, wrapping it in the HTML elements of its marks
+ *
+ * @param node - Text run to render
+ * @returns HTML string
+ * @internal
+ */
+function renderHtmlText(node: RichTextText): string {
+  let returnString = escapeHtml(node.value);
+
+  for (const mark of node.marks) {
+    returnString = `${getHtmlMarkTag(mark)}${returnString}</${getHtmlMarkElement(mark)}>`;
+  }
+
+  return returnString;
+}
+
+/**
+ * Renders a rich text node as HTML
+ *
+ * @param node - Node to render
+ * @param options - Link, footnote and image URL builders
+ * @returns HTML string
+ * @internal
+ */
+function renderHtmlNode(
+  node: RichTextNode,
+  options: HtmlRenderOptions,
+): string {
+  switch (node.type) {
+    case "text": {
+      return renderHtmlText(node);
+    }
+    case "break": {
+      return "<br>";
+    }
+    case "link": {
+      const url = options.linkUrl ? options.linkUrl(node) : node.url;
+      const safeUrl = url !== null ? getSafeUrl(url) : null;
+      const attributes = renderHtmlAttributes({
+        href: safeUrl,
+        class: options.linkClassName?.(node) ?? null,
+        title: node.title,
+      });
+      const children = node.children
+        .map((child) => renderHtmlText(child))
+        .join("");
+
+      return safeUrl !== null ?
+          `<a${attributes}>${children}</a>`
+        : `<span${attributes}>${children}</span>`;
+    }
+    case "image": {
+      const url = options.imageUrl ? options.imageUrl(node) : node.url;
+
+      return `<img${renderHtmlAttributes({
+        src: getSafeUrl(url),
+        alt: node.alt ?? "",
+        width: node.width,
+        height: node.height,
+      })}>`;
+    }
+    case "footnoteReference": {
+      const url =
+        options.footnoteUrl ?
+          options.footnoteUrl(node)
+        : `#footnote-${node.identifier}`;
+
+      return `<sup><a${renderHtmlAttributes({
+        href: getSafeUrl(url),
+        title: node.title,
+      })}>${escapeHtml(node.label ?? "*")}</a></sup>`;
+    }
+  }
+}
+
+/**
+ * Renders a rich text tree as sanitized, standalone HTML
+ *
+ * @param richText - Rich text tree or nodes to render
+ * @param options - Link URL and class builders, footnote and image URL builders
+ * @returns HTML string with `<strong>`, `<em>`, `<u>`, `<a>`, `<span>`, `<sup>`, `<img>` and `<br>` elements
+ *
+ * @example
+ * ```ts
+ * const html = renderHtml(document.richText, {
+ *   linkUrl: (link) => (link.uuid !== null ? `/items/${link.uuid}` : link.url),
+ *   linkClassName: (link) => `link link-${link.variant}`,
+ * });
+ * ```
+ *
+ * @remarks
+ * Text and attributes are escaped, and URLs with a scheme other than http, https or mailto are dropped.
+ * Links without a URL, e.g. to unpublished items, are rendered as `<span>` elements.
+ */
+export function renderHtml(
+  richText: RichTextRoot | Array<RichTextNode>,
+  options: HtmlRenderOptions = {},
+): string {
+  const nodes = Array.isArray(richText) ? richText : richText.children;
+
+  return nodes.map((node) => renderHtmlNode(node, options)).join("");
+}
+
+/**
+ * Renders a rich text node as plain text, keeping the text of links
+ *
+ * @param node - Node to render
+ * @param footnotes - Whether to keep footnote references
+ * @returns Plain text
+ * @internal
+ */
+function renderPlainTextNode(node: RichTextNode, footnotes: boolean): string {
+  switch (node.type) {
+    case "text": {
+      return node.value;
+    }
+    case "break": {
+      return "\n";
+    }
+    case "link": {
+      return node.children.map((child) => child.value).join("");
+    }
+    case "image": {
+      return "";
+    }
+    case "footnoteReference": {
+      return footnotes ? `[${node.label ?? "*"}]` : "";
+    }
+  }
+}
+
+/**
+ * Renders rich text nodes as plain text, keeping the text of links
+ *
+ * @param nodes - Nodes to render
+ * @param footnotes - Whether to keep footnote references
+ * @returns Plain text
+ * @internal
+ */
+function renderPlainTextNodes(
+  nodes: Array<RichTextNode>,
+  footnotes: boolean,
+): string {
+  return nodes.map((node) => renderPlainTextNode(node, footnotes)).join("");
+}
+
+/**
+ * Escapes a string for use in a regular expression
+ *
+ * @param string - String to escape
+ * @returns Escaped string
+ * @internal
+ */
+function escapeRegExp(string: string): string {
+  return string.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`);
+}
+
+/**
+ * Strips the Markdown formatting and MDX components of a parsed string, keeping the text of links
+ *
+ * @param string - Parsed string, e.g. a description or the content of a document
+ * @param footnotes - Whether to keep footnote references
+ * @param components - Names of the MDX components
+ * @returns Plain text
+ * @internal
+ */
+function stripMdx(
+  string: string,
+  footnotes: boolean,
+  components: MdxComponentNames,
+): string {
+  const footnote = escapeRegExp(components.footnote);
+  const inlineImage = escapeRegExp(components.inlineImage);
+  const externalLink = escapeRegExp(components.externalLink);
+  const tooltip = escapeRegExp(components.tooltip);
+
+  let returnString = string
+    .replaceAll(
+      new RegExp(String.raw` ?<${footnote}\b([^>]*)\/>`, "g"),
+      (_, attributes: string) =>
+        footnotes ? `[${/label="([^"]*)"/.exec(attributes)?.[1] ?? "*"}]` : "",
+    )
+    .replaceAll(new RegExp(String.raw`<${inlineImage}\b[^>]*\/>`, "g"), "")
+    .replaceAll(/\n?<br \/>| {2}\n/g, "\n");
+
+  // Only delimiters around whole words are formatting marks, following the
+  // CommonMark flanking rules, so "file_name" and "2*3*4" are kept as is.
+  // Marks are stripped while the components next to them still separate words,
+  // e.g. in "_*text*_<ExternalLink>", and can be nested
+  let previousString;
+  do {
+    previousString = returnString;
+    returnString = returnString.replaceAll(
+      /(?<![\p{L}\p{N}\\])(\*\*|\*|~~|_)(?=\S)(.+?)(?<=\S)\1(?![\p{L}\p{N}])/gsu,
+      "$2",
+    );
+  } while (returnString !== previousString);
+
+  return returnString
+    .replaceAll(
+      new RegExp(
+        String.raw`<\/?(?:${externalLink}|${tooltip}|sup|sub|span)\b[^>]*>`,
+        "g",
+      ),
+      "",
+    )
+    .replaceAll(String.raw`\<`, "<")
+    .replaceAll(String.raw`\{`, "{")
+    .replaceAll("&quot;", '"');
+}
+
+/**
+ * Replaces the labels of the footnote references of an MDX string with the numbers of the footnotes they reference
+ *
+ * @param string - MDX string, e.g. the content of a footnote
+ * @param numbers - Numbers of the footnotes by UUID; references to other footnotes are kept as is
+ * @param options - MDX render options the string was rendered with, for custom component names
+ * @returns MDX string with relabeled footnote references
+ * @internal
+ */
+export function relabelMdxFootnotes(
+  string: string,
+  numbers: Map<string, number>,
+  options: MdxRenderOptions = {},
+): string {
+  const footnote = escapeRegExp(
+    options.components?.footnote ?? DEFAULT_MDX_COMPONENTS.footnote,
+  );
+
+  return string.replaceAll(
+    new RegExp(
+      String.raw`(<${footnote} uuid="([^"]*)")(?: label="[^"]*")?`,
+      "g",
+    ),
+    (reference: string, start: string, uuid: string) => {
+      const number = numbers.get(uuid);
+
+      return number !== undefined ? `${start} label="${number}"` : reference;
+    },
+  );
+}
+
+/**
+ * Truncates a text on a word boundary
+ *
+ * @param text - Text to truncate
+ * @param maxLength - Maximum length of the text, including the ellipsis
+ * @param ellipsis - String appended to truncated text
+ * @returns Truncated text
+ * @internal
+ */
+function truncateText(
+  text: string,
+  maxLength: number,
+  ellipsis: string,
+): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const truncatedText = text.slice(0, Math.max(0, maxLength - ellipsis.length));
+  const boundary = truncatedText.search(/\s\S*$/);
+
+  return `${(boundary > 0 ? truncatedText.slice(0, boundary) : truncatedText).trimEnd()}${ellipsis}`;
+}
+
+/**
+ * Renders documents, notes, rich text or parsed strings as plain text, e.g. for search indexing, meta descriptions or CSV exports
+ *
+ * @param content - Document, note, rich text tree or parsed string, e.g. a description
+ * @param options - Footnotes, line breaks and truncation
+ * @returns Plain text without formatting, keeping the text of links
+ *
+ * @example
+ * ```ts
+ * const description = toPlainText(resource.document, {
+ *   lineBreaks: false,
+ *   maxLength: 160,
+ * });
+ * ```
+ *
+ * @remarks
+ * Documents and notes parsed with `richText: true` are rendered from their rich text tree,
+ * other content is stripped of its Markdown formatting and MDX components.
+ */
+export function toPlainText(
+  content: Document | Note | RichTextRoot | Array<RichTextNode> | string,
+  options: PlainTextOptions = {},
+): string {
+  const {
+    footnotes = false,
+    lineBreaks = true,
+    maxLength,
+    ellipsis = "…",
+  } = options;
+  const components = { ...DEFAULT_MDX_COMPONENTS, ...options.components };
+
+  let text: string;
+  if (typeof content === "string") {
+    text = stripMdx(content, footnotes, components);
+  } else if (Array.isArray(content) || "type" in content) {
+    text = renderPlainTextNodes(
+      Array.isArray(content) ? content : content.children,
+      footnotes,
+    );
+  } else {
+    text =
+      content.richText ?
+        renderPlainTextNodes(content.richText.children, footnotes)
+      : stripMdx(content.content, footnotes, components);
+
+    if (footnotes && "footnotes" in content) {
+      const footnoteLines = content.footnotes
+        .filter((footnote) => footnote.content !== "")
+        .map(
+          (footnote) =>
+            `[${footnote.label}] ${stripMdx(footnote.content, false, components)}`,
+        );
+      if (footnoteLines.length > 0) {
+        text += `\n\n${footnoteLines.join("\n")}`;
+      }
+    }
+  }
+
+  text = text
+    .replaceAll(/[^\S\n]+/g, " ")
+    .replaceAll(/ ?\n ?/g, "\n")
+    .trim();
+  if (!lineBreaks) {
+    text = text.replaceAll(/\s+/g, " ");
+  }
+
+  return maxLength !== undefined ?
+      truncateText(text, maxLength, ellipsis)
+    : text;
+}
@@ -0,0 +1,825 @@
+import type {
+  FakeString,
+  OchreBibliography,
+  OchreConcept,
+  OchreContext,
+  OchreContextItem,
+  OchreContextValue,
+  OchreCoordinates,
+  OchreData,
+  OchreEvent,
+  OchreIdentification,
+  OchreImage,
+  OchreImageMap,
+  OchreImageMapArea,
+  OchreInterpretation,
+  OchreLanguage,
+  OchreLicense,
+  OchreLink,
+  OchreLinkItem,
+  OchreMetadata,
+  OchreNestedConcept,
+  OchreNestedResource,
+  OchreNestedSpatialUnit,
+  OchreNote,
+  OchreObservation,
+  OchrePeriod,
+  OchrePeriodBoundary,
+  OchrePerson,
+  OchreProperty,
+  OchrePropertyValue,
+  OchreResource,
+  OchreSet,
+  OchreSpatialUnit,
+  OchreStringContent,
+  OchreStringItem,
+  OchreStringItemContent,
+  OchreStringRichText,
+  OchreStringRichTextItem,
+  OchreStringRichTextItemAnnotation,
+  OchreStringRichTextItemContent,
+  OchreTree,
+} from "../types/internal.raw.d.ts";
+import type { OchreValidationIssue } from "./errors.js";
+import { z } from "zod";
+import { OchreValidationError } from "./errors.js";
+
+/**
+ * Creates a schema accepting either a single value or an array of values, as produced by the OCHRE XML to JSON conversion
+ *
+ * @param schema - Schema of a single value
+ * @returns Schema accepting one or many values
+ * @internal
+ */
+function oneOrMany<T extends z.ZodTypeAny>(schema: T) {
+  return z.union([schema, z.array(schema)]);
+}
+
+/**
+ * Schema for a raw string value that can be a string, number, or boolean
+ */
+export const fakeStringSchema: z.ZodType<FakeString> = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+]);
+
+/**
+ * Schema for a raw content item with rendering and whitespace options
+ */
+export const ochreStringItemContentSchema: z.ZodType<OchreStringItemContent> =
+  z.object({
+    rend: z.string().optional(),
+    whitespace: z.string().optional(),
+    content: fakeStringSchema,
+  });
+
+/**
+ * Schema for a raw string item with language metadata
+ */
+export const ochreStringItemSchema: z.ZodType<OchreStringItem> = z.object({
+  string: z.union([fakeStringSchema, oneOrMany(ochreStringItemContentSchema)]),
+  lang: z.string().optional(),
+  languages: z.string().optional(),
+});
+
+/**
+ * Schema for raw string content
+ */
+export const ochreStringContentSchema: z.ZodType<OchreStringContent> = z.object(
+  {
+    content: z.union([fakeStringSchema, oneOrMany(ochreStringItemSchema)]),
+  },
+);
+
+/**
+ * Schema for a raw rich text content item
+ */
+export const ochreStringRichTextItemContentSchema: z.ZodType<OchreStringRichTextItemContent> =
+  z.object({
+    content: fakeStringSchema,
+    title: fakeStringSchema.optional(),
+    lang: z.string().optional(),
+    whitespace: z.string().optional(),
+    rend: z.string().optional(),
+  });
+
+/**
+ * Schema for an annotated raw rich text item with links
+ */
+export const ochreStringRichTextItemAnnotationSchema: z.ZodType<OchreStringRichTextItemAnnotation> =
+  z.lazy(() =>
+    z.object({
+      annotation: z.string(),
+      string: fakeStringSchema,
+      links: oneOrMany(getOchreLinkSchema()),
+    }),
+  );
+
+/**
+ * Schema for the different raw rich text item formats
+ */
+export const ochreStringRichTextItemSchema: z.ZodType<OchreStringRichTextItem> =
+  z.union([
+    fakeStringSchema,
+    ochreStringRichTextItemContentSchema,
+    z.object({
+      string: oneOrMany(ochreStringRichTextItemAnnotationSchema),
+      whitespace: z.string().optional(),
+    }),
+    z.object({ whitespace: z.string() }),
+    ochreStringRichTextItemAnnotationSchema,
+  ]);
+
+/**
+ * Schema for raw rich text content with language metadata
+ */
+export const ochreStringRichTextSchema: z.ZodType<OchreStringRichText> =
+  z.object({
+    string: z.union([
+      fakeStringSchema,
+      oneOrMany(ochreStringRichTextItemSchema),
+    ]),
+    title: fakeStringSchema.optional(),
+    lang: z.string().optional(),
+  });
+
+/**
+ * Schema for raw identification data
+ */
+export const ochreIdentificationSchema: z.ZodType<OchreIdentification> =
+  z.object({
+    label: ochreStringContentSchema,
+    abbreviation: ochreStringContentSchema.optional(),
+    MIMEType: z.string().optional(),
+    widthPreview: z.number().optional(),
+    heightPreview: z.number().optional(),
+    height: z.number().optional(),
+    width: z.number().optional(),
+    website: z.string().optional(),
+  });
+
+/**
+ * Schema for raw license data
+ */
+export const ochreLicenseSchema: z.ZodType<OchreLicense> = z.object({
+  license: z.union([
+    z.object({ content: z.string(), target: z.string() }),
+    z.string(),
+  ]),
+});
+
+/**
+ * Schema for raw language data
+ */
+export const ochreLanguageSchema: z.ZodType<OchreLanguage> = z.object({
+  default: z.boolean().optional(),
+  content: z.string(),
+});
+
+/**
+ * Schema for raw metadata
+ */
+export const ochreMetadataSchema: z.ZodType<OchreMetadata> = z.object({
+  identifier: ochreStringContentSchema,
+  item: z
+    .object({
+      label: ochreStringContentSchema.optional(),
+      abbreviation: ochreStringContentSchema.optional(),
+      identification: ochreIdentificationSchema,
+      category: z.string(),
+      type: z.string(),
+      maxLength: z.number().optional(),
+    })
+    .optional(),
+  publisher: ochreStringContentSchema,
+  dataset: ochreStringContentSchema,
+  project: z.object({ identification: ochreIdentificationSchema }).optional(),
+  language: oneOrMany(ochreLanguageSchema),
+  description: ochreStringContentSchema,
+});
+
+/**
+ * Schema for a raw context item
+ */
+export const ochreContextItemSchema: z.ZodType<OchreContextItem> = z.object({
+  uuid: z.string(),
+  publicationDateTime: z.string().optional(),
+  n: z.number(),
+  content: fakeStringSchema,
+});
+
+/**
+ * Schema for a raw context value
+ */
+export const ochreContextValueSchema: z.ZodType<OchreContextValue> = z.object({
+  tree: ochreContextItemSchema,
+  project: ochreContextItemSchema,
+  spatialUnit: oneOrMany(ochreContextItemSchema).optional(),
+  displayPath: z.string(),
+});
+
+/**
+ * Schema for raw context data
+ */
+export const ochreContextSchema: z.ZodType<OchreContext> = z.object({
+  context: oneOrMany(ochreContextValueSchema),
+  displayPath: z.string(),
+});
+
+/**
+ * Schema for a raw link item
+ */
+export const ochreLinkItemSchema: z.ZodType<OchreLinkItem> = z.object({
+  uuid: z.string(),
+  publicationDateTime: z.string().optional(),
+  type: z.string().optional(),
+  identification: ochreIdentificationSchema.optional(),
+  rend: z.literal("inline").optional(),
+  content: fakeStringSchema.optional(),
+  heightPreview: z.number().optional(),
+  widthPreview: z.number().optional(),
+  height: z.number().optional(),
+  width: z.number().optional(),
+});
+
+/**
+ * Schema for a raw link
+ */
+export const ochreLinkSchema: z.ZodType<OchreLink> = z.lazy(() =>
+  z.union([
+    z.object({ resource: oneOrMany(ochreLinkItemSchema) }),
+    z.object({ concept: oneOrMany(ochreLinkItemSchema) }),
+    z.object({ set: oneOrMany(ochreLinkItemSchema) }),
+    z.object({ tree: oneOrMany(ochreLinkItemSchema) }),
+    z.object({ person: oneOrMany(ochreLinkItemSchema) }),
+    z.object({ epigraphicUnit: oneOrMany(ochreLinkItemSchema) }),
+    z.object({ bibliography: oneOrMany(getOchreBibliographySchema()) }),
+  ]),
+);
+
+/**
+ * Returns the link schema to the rich text schemas declared before it, as links and rich text reference each other
+ *
+ * @returns Schema for a raw link
+ * @internal
+ */
+function getOchreLinkSchema(): z.ZodType<OchreLink> {
+  return ochreLinkSchema;
+}
+
+/**
+ * Schema for raw image data
+ */
+export const ochreImageSchema: z.ZodType<OchreImage> = z.object({
+  publicationDateTime: z.string().optional(),
+  identification: ochreIdentificationSchema.optional(),
+  href: z.string().optional(),
+  htmlImgSrcPrefix: z.string().optional(),
+  content: fakeStringSchema.optional(),
+});
+
+/**
+ * Schema for a raw image map area
+ */
+export const ochreImageMapAreaSchema: z.ZodType<OchreImageMapArea> = z.object({
+  uuid: z.string(),
+  publicationDateTime: z.string().optional(),
+  type: z.string(),
+  title: fakeStringSchema,
+  shape: z.enum(["rect", "poly"]),
+  coords: z.string(),
+});
+
+/**
+ * Schema for a raw image map
+ */
+export const ochreImageMapSchema: z.ZodType<OchreImageMap> = z.object({
+  area: oneOrMany(ochreImageMapAreaSchema),
+  width: z.number(),
+  height: z.number(),
+});
+
+/**
+ * Schema for a raw note
+ */
+export const ochreNoteSchema: z.ZodType<OchreNote> = z.union([
+  z.string(),
+  z.object({
+    noteNo: z.number(),
+    content: oneOrMany(ochreStringRichTextSchema),
+  }),
+]);
+
+/**
+ * Schema for a raw property value
+ */
+export const ochrePropertyValueSchema: z.ZodType<OchrePropertyValue> = z.object(
+  {
+    content: z.union([fakeStringSchema, oneOrMany(ochreStringItemSchema)]),
+    uuid: z.string().optional(),
+    publicationDateTime: z.string().optional(),
+    type: z.string(),
+    category: z.string().optional(),
+  },
+);
+
+/**
+ * Schema for a raw property, including its nested properties
+ */
+export const ochrePropertySchema: z.ZodType<OchreProperty> = z.lazy(() =>
+  z.object({
+    label: z.object({
+      content: z.union([fakeStringSchema, oneOrMany(ochreStringItemSchema)]),
+      uuid: z.string(),
+    }),
+    value: oneOrMany(ochrePropertyValueSchema).optional(),
+    comment: fakeStringSchema.optional(),
+    property: oneOrMany(ochrePropertySchema).optional(),
+  }),
+);
+
+/**
+ * Schema for raw properties container
+ * @internal
+ */
+const ochrePropertiesSchema = z.object({
+  property: oneOrMany(ochrePropertySchema),
+});
+
+/**
+ * Schema for a raw event
+ */
+export const ochreEventSchema: z.ZodType<OchreEvent> = z.object({
+  dateTime: z.string().optional(),
+  agent: z.object({ uuid: z.string(), content: fakeStringSchema }).optional(),
+  label: ochreStringContentSchema,
+});
+
+/**
+ * Schema for a raw period boundary
+ */
+export const ochrePeriodBoundarySchema: z.ZodType<OchrePeriodBoundary> =
+  z.object({
+    year: z.number(),
+    month: z.number().optional(),
+    day: z.number().optional(),
+  });
+
+/**
+ * Schema for a raw period
+ */
+export const ochrePeriodSchema: z.ZodType<OchrePeriod> = z.lazy(() =>
+  z.object({
+    uuid: z.string(),
+    publicationDateTime: z.string().optional(),
+    type: z.string().optional(),
+    n: z.number().optional(),
+    context: ochreContextSchema.optional(),
+    availability: ochreLicenseSchema.optional(),
+    identification: ochreIdentificationSchema,
+    description: ochreStringContentSchema.optional(),
+    startDate: ochrePeriodBoundarySchema.optional(),
+    endDate: ochrePeriodBoundarySchema.optional(),
+    notes: z.object({ note: oneOrMany(ochreNoteSchema) }).optional(),
+    links: oneOrMany(ochreLinkSchema).optional(),
+    properties: ochrePropertiesSchema.optional(),
+  }),
+);
+
+/**
+ * Schema for a raw person
+ */
+export const ochrePersonSchema: z.ZodType<OchrePerson> = z.lazy(() =>
+  z.object({
+    uuid: z.string(),
+    publicationDateTime: z.string().optional(),
+    type: z.string().optional(),
+    date: z.string().optional(),
+    context: ochreContextSchema.optional(),
+    availability: ochreLicenseSchema.optional(),
+    identification: ochreIdentificationSchema.optional(),
+    content: fakeStringSchema.nullable().optional(),
+    description: ochreStringContentSchema.optional(),
+    notes: z.object({ note: oneOrMany(ochreNoteSchema) }).optional(),
+    events: z.object({ event: oneOrMany(ochreEventSchema) }).optional(),
+    periods: z.object({ period: oneOrMany(ochrePeriodSchema) }).optional(),
+    links: oneOrMany(ochreLinkSchema).optional(),
+    properties: ochrePropertiesSchema.optional(),
+  }),
+);
+
+/**
+ * Schema for a raw bibliography
+ */
+export const ochreBibliographySchema: z.ZodType<OchreBibliography> = z.lazy(
+  () =>
+    z.object({
+      uuid: z.string(),
+      publicationDateTime: z.string().optional(),
+      type: z.string().optional(),
+      n: z.number().optional(),
+      identification: ochreIdentificationSchema.optional(),
+      project: z
+        .object({ identification: ochreIdentificationSchema })
+        .optional(),
+      context: ochreContextSchema.optional(),
+      sourceDocument: z
+        .object({ uuid: z.string(), content: fakeStringSchema })
+        .optional(),
+      publicationInfo: z
+        .object({
+          publishers: z
+            .object({
+              publishers: z.object({ person: oneOrMany(ochrePersonSchema) }),
+            })
+            .optional(),
+          startDate: z
+            .object({ month: z.number(), year: z.number(), day: z.number() })
+            .optional(),
+        })
+        .optional(),
+      entryInfo: z
+        .object({ startIssue: fakeStringSchema, startVolume: fakeStringSchema })
+        .optional(),
+      citationFormat: z.string().optional(),
+      citationFormatSpan: z
+        .union([
+          z.object({ span: z.object({ content: fakeStringSchema }) }),
+          z.object({ "default:span": z.object({ content: fakeStringSchema }) }),
+        ])
+        .optional(),
+      referenceFormatDiv: z
+        .union([
+          z.object({
+            div: z.object({
+              div: z.object({ class: z.string(), content: fakeStringSchema }),
+              style: z.string(),
+              class: z.string(),
+            }),
+          }),
+          z.object({
+            "default:div": z.object({
+              "default:div": z.object({
+                class: z.string(),
+                content: fakeStringSchema,
+              }),
+              style: z.string(),
+              class: z.string(),
+            }),
+          }),
+        ])
+        .optional(),
+      source: z
+        .object({
+          resource: z.object({
+            uuid: z.string(),
+            type: z.string(),
+            publicationDateTime: z.string(),
+            identification: ochreIdentificationSchema,
+          }),
+        })
+        .optional(),
+      authors: z.object({ person: oneOrMany(ochrePersonSchema) }).optional(),
+      properties: ochrePropertiesSchema.optional(),
+    }),
+);
+
+/**
+ * Returns the bibliography schema to the link schema declared before it, as links and bibliographies reference each other
+ *
+ * @returns Schema for a raw bibliography
+ * @internal
+ */
+function getOchreBibliographySchema(): z.ZodType<OchreBibliography> {
+  return ochreBibliographySchema;
+}
+
+/**
+ * Schema for a raw observation
+ */
+export const ochreObservationSchema: z.ZodType<OchreObservation> = z.object({
+  observationNo: z.number(),
+  date: z.string().optional(),
+  observers: fakeStringSchema.optional(),
+  notes: z.object({ note: oneOrMany(ochreNoteSchema) }).optional(),
+  links: oneOrMany(ochreLinkSchema).optional(),
+  properties: ochrePropertiesSchema.optional(),
+});
+
+/**
+ * Schema for raw coordinates
+ */
+export const ochreCoordinatesSchema: z.ZodType<OchreCoordinates> = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  coordinatesArray: z.string().optional(),
+  coord: z
+    .object({
+      coordLatitude: z.number(),
+      coordLongitude: z.number(),
+      coordType: z.string(),
+      coordLabel: fakeStringSchema,
+      arrayString: z.string(),
+      uuid: z.string(),
+    })
+    .optional(),
+});
+
+/**
+ * Schema for a raw interpretation
+ */
+export const ochreInterpretationSchema: z.ZodType<OchreInterpretation> =
+  z.object({
+    date: z.string(),
+    interpretationNo: z.number(),
+    properties: ochrePropertiesSchema.optional(),
+  });
+
+/**
+ * Shape shared by raw resources and nested resources
+ * @internal
+ */
+const ochreNestedResourceShape = {
+  uuid: z.string(),
+  publicationDateTime: z.string(),
+  type: z.string(),
+  n: z.number(),
+  slug: z.string().optional(),
+  format: z.string().optional(),
+  identification: ochreIdentificationSchema,
+  href: z.string().optional(),
+  description: ochreStringContentSchema.optional(),
+  date: z.string().optional(),
+  image: ochreImageSchema.optional(),
+  creators: z.object({ creator: oneOrMany(ochrePersonSchema) }).optional(),
+  notes: z.object({ note: oneOrMany(ochreNoteSchema) }).optional(),
+  document: z
+    .object({ content: oneOrMany(ochreStringRichTextSchema) })
+    .optional(),
+  imagemap: ochreImageMapSchema.optional(),
+  periods: z.object({ period: oneOrMany(ochrePeriodSchema) }).optional(),
+  links: oneOrMany(ochreLinkSchema).optional(),
+  reverseLinks: oneOrMany(ochreLinkSchema).optional(),
+  properties: ochrePropertiesSchema.optional(),
+  citedBibliography: z
+    .object({ reference: oneOrMany(ochreBibliographySchema) })
+    .optional(),
+};
+
+/**
+ * Schema for a raw nested resource, including its own nested resources
+ */
+export const ochreNestedResourceSchema: z.ZodType<OchreNestedResource> = z.lazy(
+  () =>
+    z.object({
+      ...ochreNestedResourceShape,
+      resource: oneOrMany(ochreNestedResourceSchema).optional(),
+    }),
+);
+
+/**
+ * Schema for a raw resource
+ */
+export const ochreResourceSchema: z.ZodType<OchreResource> = z.object({
+  ...ochreNestedResourceShape,
+  resource: oneOrMany(ochreNestedResourceSchema).optional(),
+  context: ochreContextSchema.optional(),
+  availability: ochreLicenseSchema.optional(),
+  copyright: fakeStringSchema.optional(),
+});
+
+/**
+ * Shape shared by raw spatial units and nested spatial units
+ * @internal
+ */
+const ochreSpatialUnitBaseShape = {
+  uuid: z.string(),
+  publicationDateTime: z.string().optional(),
+  type: z.string(),
+  n: z.number(),
+  identification: ochreIdentificationSchema,
+  image: ochreImageSchema.optional(),
+  description: ochreStringContentSchema.optional(),
+  coordinates: ochreCoordinatesSchema.optional(),
+  observation: ochreObservationSchema.optional(),
+};
+
+/**
+ * Schema for a raw spatial unit
+ */
+export const ochreSpatialUnitSchema: z.ZodType<OchreSpatialUnit> = z.object({
+  ...ochreSpatialUnitBaseShape,
+  availability: ochreLicenseSchema.optional(),
+  context: ochreContextSchema.optional(),
+  events: z.object({ event: oneOrMany(ochreEventSchema) }).optional(),
+  observations: z
+    .object({ observation: oneOrMany(ochreObservationSchema) })
+    .optional(),
+});
+
+/**
+ * Schema for a raw nested spatial unit
+ */
+export const ochreNestedSpatialUnitSchema: z.ZodType<OchreNestedSpatialUnit> =
+  z.object({
+    ...ochreSpatialUnitBaseShape,
+    properties: ochrePropertiesSchema.optional(),
+  });
+
+/**
+ * Shape shared by raw concepts and nested concepts
+ * @internal
+ */
+const ochreNestedConceptShape = {
+  uuid: z.string(),
+  publicationDateTime: z.string(),
+  n: z.number(),
+  identification: ochreIdentificationSchema,
+  interpretations: z.object({
+    interpretation: oneOrMany(ochreInterpretationSchema),
+  }),
+};
+
+/**
+ * Schema for a raw nested concept
+ */
+export const ochreNestedConceptSchema: z.ZodType<OchreNestedConcept> = z.object(
+  ochreNestedConceptShape,
+);
+
+/**
+ * Schema for a raw concept
+ */
+export const ochreConceptSchema: z.ZodType<OchreConcept> = z.object({
+  ...ochreNestedConceptShape,
+  availability: ochreLicenseSchema.optional(),
+  context: ochreContextSchema.optional(),
+});
+
+/**
+ * Schema for the raw items of a tree or set
+ */
+export const ochreItemsSchema: z.ZodType<OchreTree["items"]> = z.union([
+  z.string(),
+  z.object({ resource: oneOrMany(ochreResourceSchema) }),
+  z.object({ spatialUnit: oneOrMany(ochreSpatialUnitSchema) }),
+  z.object({ concept: oneOrMany(ochreConceptSchema) }),
+  z.object({ period: oneOrMany(ochrePeriodSchema) }),
+]);
+
+/**
+ * Schema for a page of raw tree or set items, each wrapped in its own `item` element to keep document order
+ */
+export const ochreItemsPageSchema: z.ZodType<{
+  item: OchreTree["items"] | Array<OchreTree["items"]>;
+}> = z.object({ item: oneOrMany(ochreItemsSchema) });
+
+/**
+ * Schema for a raw tree
+ */
+export const ochreTreeSchema: z.ZodType<OchreTree> = z.object({
+  uuid: z.string(),
+  publicationDateTime: z.string(),
+  type: z.string(),
+  n: z.number(),
+  availability: ochreLicenseSchema,
+  identification: ochreIdentificationSchema,
+  date: z.string().optional(),
+  creators: z.object({ creator: oneOrMany(ochrePersonSchema) }).optional(),
+  items: ochreItemsSchema,
+  properties: ochrePropertiesSchema.optional(),
+});
+
+/**
+ * Schema for a raw set
+ */
+export const ochreSetSchema: z.ZodType<OchreSet> = z.object({
+  uuid: z.string(),
+  publicationDateTime: z.string(),
+  type: z.string(),
+  n: z.number(),
+  availability: ochreLicenseSchema,
+  identification: ochreIdentificationSchema,
+  date: z.string().optional(),
+  suppressBlanks: z.boolean().optional(),
+  description: ochreStringContentSchema.optional(),
+  creators: z.object({ creator: oneOrMany(ochrePersonSchema) }).optional(),
+  items: ochreItemsSchema,
+});
+
+/**
+ * Schema for the content of raw OCHRE data
+ * @internal
+ */
+const ochreDataContentSchema: z.ZodType<OchreData["ochre"]> = z.intersection(
+  z.object({
+    uuid: z.string(),
+    uuidBelongsTo: z.string(),
+    belongsTo: fakeStringSchema,
+    publicationDateTime: z.string(),
+    metadata: ochreMetadataSchema,
+    languages: z.string().optional(),
+  }),
+  z.union([
+    z.object({ tree: ochreTreeSchema }),
+    z.object({ set: ochreSetSchema }),
+    z.object({ resource: ochreResourceSchema }),
+    z.object({ spatialUnit: ochreSpatialUnitSchema }),
+    z.object({ concept: ochreConceptSchema }),
+    z.object({ bibliography: ochreBibliographySchema }),
+    z.object({ person: ochrePersonSchema }),
+    z.object({ period: ochrePeriodSchema }),
+  ]),
+);
+
+/**
+ * Schema for raw OCHRE data as returned by the OCHRE API
+ */
+export const ochreDataSchema: z.ZodType<OchreData> = z.object({
+  ochre: ochreDataContentSchema,
+});
+
+/**
+ * Schema for the result of an XQuery returning whole OCHRE items
+ */
+export const ochreXQueryResultSchema: z.ZodType<{
+  ochre: OchreData["ochre"] | Array<OchreData["ochre"]>;
+}> = z.object({ ochre: oneOrMany(ochreDataContentSchema) });
+
+/**
+ * Schema for the result of an XQuery returning the UUID and publication date of items
+ */
+export const ochrePublicationDateTimesSchema: z.ZodType<{
+  item:
+    | { uuid: string; publicationDateTime: string }
+    | Array<{ uuid: string; publicationDateTime: string }>;
+}> = z.object({
+  item: oneOrMany(
+    z.object({ uuid: z.string(), publicationDateTime: z.string() }),
+  ),
+});
+
+/**
+ * Flattens zod issues into validation issues, following the union member that matched deepest
+ *
+ * @param issues - Issues reported by zod
+ * @returns Validation issues with their JSON paths
+ * @internal
+ */
+function flattenIssues(issues: Array<z.ZodIssue>): Array<OchreValidationIssue> {
+  const returnIssues: Array<OchreValidationIssue> = [];
+
+  for (const issue of issues) {
+    if (issue.code === "invalid_union" && issue.unionErrors.length > 0) {
+      const getDepth = (error: z.ZodError) =>
+        Math.max(...error.issues.map((issue) => issue.path.length));
+
+      let closestError = issue.unionErrors[0]!;
+      for (const error of issue.unionErrors) {
+        if (getDepth(error) > getDepth(closestError)) {
+          closestError = error;
+        }
+      }
+      returnIssues.push(...flattenIssues(closestError.issues));
+      continue;
+    }
+
+    returnIssues.push({ path: issue.path, message: issue.message });
+  }
+
+  return returnIssues;
+}
+
+/**
+ * Validates raw OCHRE data against a schema
+ *
+ * @param schema - Schema to validate against, e.g. `ochreDataSchema`
+ * @param data - Raw data to validate
+ * @returns The data, typed according to the schema
+ * @throws {OchreValidationError} If the data does not match the schema, listing the JSON path of each violation
+ *
+ * @example
+ * ```ts
+ * try {
+ *   const dataRaw = validateOchreData(ochreDataSchema, json);
+ * } catch (error) {
+ *   if (error instanceof OchreValidationError) {
+ *     for (const issue of error.issues) {
+ *       console.error(`${issue.path.join(".")}: ${issue.message}`);
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * @remarks
+ * The original data is returned rather than zod's output, so unknown keys are kept.
+ */
+export function validateOchreData<T>(schema: z.ZodType<T>, data: unknown): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new OchreValidationError(flattenIssues(result.error.issues));
+  }
+
+  return data as T;
+}
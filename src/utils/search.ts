@@ -0,0 +1,482 @@
+import type {
+  Document,
+  Identification,
+  Note,
+  Property,
+  WebElement,
+  Webpage,
+  Website,
+} from "../types/main.js";
+import type { PlainTextOptions } from "./render.js";
+import { toPlainText } from "./render.js";
+
+/**
+ * Field of an item covered by the search index
+ */
+export type SearchField =
+  | "label"
+  | "description"
+  | "notes"
+  | "document"
+  | "properties";
+
+/**
+ * Item that can be added to a search index, e.g. a resource, a spatial unit, a concept or a webpage
+ */
+export type SearchableItem = {
+  uuid: string;
+  identification: Identification | null;
+  description?: string | null;
+  notes?: Array<Note>;
+  document?: Document | null;
+  properties?: Array<Property>;
+};
+
+/**
+ * Indexed item, holding the plain text of its fields to build snippets from
+ */
+export type SearchIndexDocument = {
+  uuid: string;
+  label: string;
+  fields: Partial<Record<SearchField, string>>;
+};
+
+/**
+ * Occurrences of a term in a field of an indexed item: [index of the item in `documents`, field, number of occurrences]
+ */
+export type SearchPosting = [
+  document: number,
+  field: SearchField,
+  count: number,
+];
+
+/**
+ * Search index built by `createSearchIndex`, a plain object that can be serialized to JSON
+ */
+export type SearchIndex = {
+  version: 1;
+  documents: Array<SearchIndexDocument>;
+  terms: Record<string, Array<SearchPosting>>; // Postings by normalized term
+};
+
+/**
+ * Options for querying a search index
+ */
+export type SearchOptions = {
+  /** Maximum number of results (defaults to all) */
+  limit?: number;
+  /** Whether the last query term also matches longer terms, e.g. for search-as-you-type (defaults to true) */
+  prefix?: boolean;
+  /** Approximate maximum length of the snippets, in characters (defaults to 160) */
+  snippetLength?: number;
+};
+
+/**
+ * Excerpt of a field of a search result, with the ranges of the matching words
+ */
+export type SearchSnippet = {
+  field: SearchField;
+  text: string;
+  highlights: Array<{ start: number; end: number }>; // Ranges of `text` to highlight, end exclusive
+};
+
+/**
+ * Item matching a search query, ranked by score
+ */
+export type SearchResult = {
+  uuid: string;
+  label: string;
+  score: number;
+  snippet: SearchSnippet | null;
+};
+
+/**
+ * Weight of a match in each field when ranking results
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  label: 5,
+  properties: 2,
+  description: 2,
+  notes: 1,
+  document: 1,
+};
+
+/**
+ * Options used to get the plain text of indexed fields
+ */
+const PLAIN_TEXT_OPTIONS: PlainTextOptions = { lineBreaks: false };
+
+/**
+ * Normalizes a word for indexing, removing case and diacritics
+ *
+ * @param word - Word to normalize
+ * @returns Normalized term, e.g. "cafe" for "Café"
+ * @internal
+ */
+function normalizeTerm(word: string): string {
+  return word
+    .normalize("NFD")
+    .replaceAll(/\p{M}/gu, "")
+    .toLocaleLowerCase("en-US");
+}
+
+/**
+ * Splits a text into words, with their normalized term and position in the original text
+ *
+ * @param text - Text to tokenize
+ * @returns Words of the text
+ * @internal
+ */
+function getWords(
+  text: string,
+): Array<{ term: string; start: number; end: number }> {
+  return [...text.matchAll(/[\p{L}\p{N}][\p{L}\p{M}\p{N}]*/gu)].map(
+    (match) => ({
+      term: normalizeTerm(match[0]),
+      start: match.index,
+      end: match.index + match[0].length,
+    }),
+  );
+}
+
+/**
+ * Returns the content of all property values, including nested properties
+ *
+ * @param properties - Properties to get the values of
+ * @returns Content of the property values
+ * @internal
+ */
+function getPropertyValueContents(properties: Array<Property>): Array<string> {
+  return properties.flatMap((property) => [
+    ...property.values.map((value) => value.content),
+    ...getPropertyValueContents(property.properties),
+  ]);
+}
+
+/**
+ * Returns the plain text of the searchable fields of an item
+ *
+ * @param item - Item to get the fields of
+ * @returns Non-empty fields of the item
+ * @internal
+ */
+function getSearchFields(
+  item: SearchableItem,
+): Partial<Record<SearchField, string>> {
+  const fields: Record<SearchField, string> = {
+    label: toPlainText(item.identification?.label ?? "", PLAIN_TEXT_OPTIONS),
+    description: toPlainText(item.description ?? "", PLAIN_TEXT_OPTIONS),
+    notes: (item.notes ?? [])
+      .map((note) =>
+        `${note.title ?? ""} ${toPlainText(note, PLAIN_TEXT_OPTIONS)}`.trim(),
+      )
+      .join(" "),
+    document:
+      item.document ? toPlainText(item.document, PLAIN_TEXT_OPTIONS) : "",
+    properties: toPlainText(
+      getPropertyValueContents(item.properties ?? []).join("; "),
+      PLAIN_TEXT_OPTIONS,
+    ),
+  };
+
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, text]) => text !== ""),
+  );
+}
+
+/**
+ * Returns the content of web elements, including the elements nested in columns and rows
+ *
+ * @param elements - Web elements to get the content of
+ * @returns MDX content of the text and annotated document elements
+ * @internal
+ */
+function getWebElementContents(elements: Array<WebElement>): Array<string> {
+  return elements.flatMap((element) => {
+    switch (element.component) {
+      case "annotated-document": {
+        return [element.document.content];
+      }
+      case "text":
+      case "text-image": {
+        return [element.content];
+      }
+      case "n-columns": {
+        return getWebElementContents(element.columns);
+      }
+      case "n-rows": {
+        return getWebElementContents(element.rows);
+      }
+      default: {
+        return [];
+      }
+    }
+  });
+}
+
+/**
+ * Returns the pages of a website, including nested pages, as items that can be added to a search index
+ *
+ * @param website - Parsed website
+ * @returns One item per page, keyed by the slug path of the page, e.g. “/about/team”, with the content of its text and annotated document elements as document
+ *
+ * @example
+ * ```ts
+ * const index = createSearchIndex(getWebsiteSearchableItems(website));
+ * for (const result of searchIndex(index, "excavation")) {
+ *   console.log(`${result.label}: ${result.uuid}`); // result.uuid is the slug path
+ * }
+ * ```
+ */
+export function getWebsiteSearchableItems(
+  website: Website,
+): Array<SearchableItem> {
+  function getPageItems(
+    pages: Array<Webpage>,
+    parentSlugs: Array<string>,
+  ): Array<SearchableItem> {
+    return pages.flatMap((page) => {
+      const slugs = [...parentSlugs, page.slug].filter((slug) => slug !== "");
+
+      return [
+        {
+          uuid: `/${slugs.join("/")}`,
+          identification: { label: page.title, abbreviation: "" },
+          document: {
+            content: getWebElementContents(page.elements).join("\n\n"),
+            footnotes: [],
+          },
+        },
+        ...getPageItems(page.webpages, slugs),
+      ];
+    });
+  }
+
+  return getPageItems(website.pages, []);
+}
+
+/**
+ * Builds a search index over the labels, descriptions, notes, document content and property values of parsed items
+ *
+ * @param items - Items to index
+ * @returns Search index, serializable to JSON
+ *
+ * @example
+ * ```ts
+ * const index = createSearchIndex(set.items.resources);
+ * await writeFile("public/search-index.json", JSON.stringify(index));
+ * ```
+ *
+ * @remarks
+ * Terms are indexed case- and diacritic-insensitively, so “Cafe” matches “Café”.
+ */
+export function createSearchIndex(items: Array<SearchableItem>): SearchIndex {
+  const documents: Array<SearchIndexDocument> = [];
+  const terms = new Map<string, Array<SearchPosting>>();
+
+  for (const [documentIndex, item] of items.entries()) {
+    const fields = getSearchFields(item);
+    documents.push({
+      uuid: item.uuid,
+      label: item.identification?.label ?? "",
+      fields,
+    });
+
+    for (const [field, text] of Object.entries(fields) as Array<
+      [SearchField, string]
+    >) {
+      const counts = new Map<string, number>();
+      for (const { term } of getWords(text)) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      }
+
+      for (const [term, count] of counts) {
+        const postings = terms.get(term) ?? [];
+        postings.push([documentIndex, field, count]);
+        terms.set(term, postings);
+      }
+    }
+  }
+
+  return { version: 1, documents, terms: Object.fromEntries(terms) };
+}
+
+/**
+ * Builds the snippet of a field around its first matching word
+ *
+ * @param field - Field of the snippet
+ * @param text - Plain text of the field
+ * @param isMatchingTerm - Whether a normalized term matches the query
+ * @param length - Approximate maximum length of the snippet
+ * @returns Snippet with the ranges of the matching words
+ * @internal
+ */
+function getSnippet(
+  field: SearchField,
+  text: string,
+  isMatchingTerm: (term: string) => boolean,
+  length: number,
+): SearchSnippet {
+  const matchingWords = getWords(text).filter((word) =>
+    isMatchingTerm(word.term),
+  );
+  const firstWord = matchingWords[0];
+
+  let start = 0;
+  if (firstWord !== undefined && firstWord.start > length / 4) {
+    start = firstWord.start - Math.floor(length / 4);
+    const boundary = text.slice(start, firstWord.start).search(/\s/);
+    start = boundary === -1 ? firstWord.start : start + boundary + 1;
+  }
+
+  let end = Math.min(text.length, start + length);
+  if (end < text.length) {
+    const boundary = text.slice(start, end).search(/\s\S*$/);
+    if (boundary > 0) {
+      end = start + boundary;
+    }
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+
+  return {
+    field,
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: matchingWords
+      .filter((word) => word.start >= start && word.end <= end)
+      .map((word) => ({
+        start: word.start - start + prefix.length,
+        end: word.end - start + prefix.length,
+      })),
+  };
+}
+
+/**
+ * Queries a search index, ranking the items containing every query term
+ *
+ * @param index - Search index built by `createSearchIndex`, possibly parsed back from JSON
+ * @param query - Search query
+ * @param options - Limit, prefix matching and snippet length
+ * @returns Matching items, best match first, with a snippet of their best matching field
+ *
+ * @example
+ * ```ts
+ * const index = (await response.json()) as SearchIndex;
+ * for (const result of searchIndex(index, "bronze fibul", { limit: 10 })) {
+ *   console.log(result.label, result.snippet?.text);
+ * }
+ * ```
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions = {},
+): Array<SearchResult> {
+  const { limit, prefix = true, snippetLength = 160 } = options;
+  const queryWords = getWords(query).map((word) => word.term);
+  const queryTerms = [...new Set(queryWords)];
+  const lastQueryTerm = queryWords.at(-1);
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  function isMatchingQueryTerm(queryTerm: string, term: string): boolean {
+    return (
+      term === queryTerm ||
+      (prefix && queryTerm === lastQueryTerm && term.startsWith(queryTerm))
+    );
+  }
+
+  const indexTerms = Object.keys(index.terms);
+  const documentCount = index.documents.length;
+  const scores = new Map<number, number>();
+  const fieldScores = new Map<number, Map<SearchField, number>>();
+
+  for (const [queryTermIndex, queryTerm] of queryTerms.entries()) {
+    const termScores = new Map<number, number>();
+    const matchingTerms = indexTerms.filter((term) =>
+      isMatchingQueryTerm(queryTerm, term),
+    );
+
+    for (const term of matchingTerms) {
+      const postings =
+        Object.hasOwn(index.terms, term) ? (index.terms[term] ?? []) : [];
+      const documentFrequency = new Set(postings.map(([document]) => document))
+        .size;
+      const inverseDocumentFrequency = Math.log(
+        1 + documentCount / documentFrequency,
+      );
+      const exactness = term === queryTerm ? 1 : 0.5;
+
+      for (const [document, field, count] of postings) {
+        const score =
+          FIELD_WEIGHTS[field] *
+          (1 + Math.log(count)) *
+          inverseDocumentFrequency *
+          exactness;
+        termScores.set(document, (termScores.get(document) ?? 0) + score);
+
+        const documentFieldScores =
+          fieldScores.get(document) ?? new Map<SearchField, number>();
+        documentFieldScores.set(
+          field,
+          (documentFieldScores.get(field) ?? 0) + score,
+        );
+        fieldScores.set(document, documentFieldScores);
+      }
+    }
+
+    // Every query term must match
+    if (queryTermIndex === 0) {
+      for (const [document, score] of termScores) {
+        scores.set(document, score);
+      }
+    } else {
+      for (const [document, score] of scores) {
+        const termScore = termScores.get(document);
+        if (termScore === undefined) {
+          scores.delete(document);
+        } else {
+          scores.set(document, score + termScore);
+        }
+      }
+    }
+  }
+
+  const results: Array<SearchResult> = [];
+  for (const [documentIndex, score] of scores) {
+    const document = index.documents[documentIndex];
+    if (document === undefined) {
+      continue;
+    }
+
+    const bestField = [...(fieldScores.get(documentIndex) ?? [])].sort(
+      (a, b) => b[1] - a[1],
+    )[0]?.[0];
+    const bestFieldText =
+      bestField === undefined ? undefined : document.fields[bestField];
+
+    results.push({
+      uuid: document.uuid,
+      label: document.label,
+      score,
+      snippet:
+        bestField === undefined || bestFieldText === undefined ?
+          null
+        : getSnippet(
+            bestField,
+            bestFieldText,
+            (term) =>
+              queryTerms.some((queryTerm) =>
+                isMatchingQueryTerm(queryTerm, term),
+              ),
+            snippetLength,
+          ),
+    });
+  }
+
+  results.sort((a, b) => b.score - a.score || a.label.localeCompare(b.label));
+
+  return limit === undefined ? results : results.slice(0, limit);
+}
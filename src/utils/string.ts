@@ -3,28 +3,21 @@ import type {
   OchreStringContent,
   OchreStringItem,
   OchreStringRichTextItem,
-  RenderOption,
+  OchreStringRichTextItemAnnotation,
   WhitespaceOption,
 } from "../types/internal.raw.js";
-import type { Footnote } from "../types/main.js";
+import type {
+  Footnote,
+  LocalizedString,
+  RichTextMark,
+  RichTextNode,
+  RichTextRoot,
+  RichTextText,
+} from "../types/main.js";
+import type { LanguagePreference, ParseOptions } from "./config.js";
 import { z } from "zod";
-
-/**
- * Schema for validating and parsing render options
- * @internal
- */
-const renderOptionsSchema = z
-  .string()
-  .transform((str) => str.split(" "))
-  .pipe(
-    z.array(
-      z.enum([
-        "bold",
-        "italic",
-        "underline",
-      ] as const satisfies ReadonlyArray<RenderOption>),
-    ),
-  );
+import { DEFAULT_PARSE_OPTIONS, getItemUrl } from "./config.js";
+import { renderMdx } from "./render.js";
 
 /**
  * Schema for validating and parsing whitespace options
@@ -73,149 +66,172 @@ function isUrlValid(url: string) {
 }
 
 /**
- * Finds a string item in an array by language code
+ * Returns the preferred language codes of a language preference, in order
  *
- * @param content - Array of string items to search
- * @param language - Language code to search for
- * @returns Matching string item or null if not found
+ * @param language - Language code or chain of language codes
+ * @returns Array of language codes
  * @internal
  */
-function getStringItemByLanguage(
-  content: Array<OchreStringItem>,
-  language: string,
-): OchreStringItem | null {
-  const stringItemToFind = content.find((item) => item.lang === language);
-  return stringItemToFind ?? null;
+export function getLanguageChain(language: LanguagePreference): Array<string> {
+  return Array.isArray(language) ? language : [language];
 }
 
 /**
- * Parses email addresses and URLs in a string into HTML links
+ * Returns the most preferred language code of a language preference, used for content without language metadata
  *
- * @param string - Input string to parse
- * @returns String with emails and URLs converted to HTML links
+ * @param language - Language code or chain of language codes
+ * @returns The first language code, or "eng" if the chain is empty
+ * @internal
+ */
+export function getPrimaryLanguage(language: LanguagePreference): string {
+  return getLanguageChain(language)[0] ?? "eng";
+}
+
+/**
+ * Finds the item in the first preferred language available
  *
- * @example
- * ```ts
- * const parsed = parseEmailAndUrl("Contact us at info@example.com or visit www.example.com");
- * // Returns: "Contact us at <ExternalLink href="mailto:info@example.com">info@example.com</ExternalLink>
- * //          or visit <ExternalLink href="www.example.com">www.example.com</ExternalLink>"
- * ```
+ * @param items - Array of items tagged with a language code
+ * @param language - Language code or chain of language codes to search for
+ * @returns Matching item or null if none of the languages is found
+ * @internal
  */
-export function parseEmailAndUrl(string: string): string {
-  const splitString = string.split(" ");
-  const returnSplitString: Array<string> = [];
+export function getItemByLanguage<T extends { lang?: string }>(
+  items: Array<T>,
+  language: LanguagePreference,
+): T | null {
+  for (const languageCode of getLanguageChain(language)) {
+    const item = items.find((item) => item.lang === languageCode);
+    if (item) {
+      return item;
+    }
+  }
 
-  for (const string of splitString) {
-    const cleanString = string
-      .replaceAll(/(?<=\s|^)[([{]+|[)\]}]+(?=\s|$)/g, "")
-      .replace(/[!),.:;?\]]$/, "");
+  return null;
+}
 
-    const index = string.indexOf(cleanString);
+/**
+ * Splits a string into rich text nodes, turning email addresses and URLs into links
+ *
+ * @param string - Input string to parse
+ * @param marks - Formatting marks applied to the text
+ * @returns Text and link nodes
+ * @internal
+ */
+export function parseEmailAndUrlNodes(
+  string: string,
+  marks: Array<RichTextMark> = [],
+): Array<RichTextNode> {
+  const nodes: Array<RichTextNode> = [];
+  let text = "";
+
+  for (const [index, word] of string.split(" ").entries()) {
+    if (index > 0) {
+      text += " ";
+    }
 
-    const before = string.slice(0, index);
-    const after = string.slice(index + cleanString.length);
+    const cleanWord = word
+      .replaceAll(/(?<=\s|^)[([{]+|[)\]}]+(?=\s|$)/g, "")
+      .replace(/[!),.:;?\]]$/, "");
 
-    const isEmail = emailSchema.safeParse(cleanString).success;
-    if (isEmail) {
-      returnSplitString.push(
-        before,
-        `${before}<ExternalLink href="mailto:${cleanString}">${cleanString}</ExternalLink>${after}`,
-      );
+    const isEmail = emailSchema.safeParse(cleanWord).success;
+    const isUrl = !isEmail && urlSchema.safeParse(cleanWord).success;
+    if (!isEmail && !isUrl) {
+      text += word;
       continue;
     }
 
-    const isUrl = urlSchema.safeParse(cleanString).success;
-    if (isUrl) {
-      returnSplitString.push(
-        `${before}<ExternalLink href="${cleanString}">${cleanString}</ExternalLink>${after}`,
-      );
-      continue;
+    const wordIndex = word.indexOf(cleanWord);
+    text += word.slice(0, wordIndex);
+    if (text !== "") {
+      nodes.push({ type: "text", value: text, marks });
     }
 
-    returnSplitString.push(string);
+    nodes.push({
+      type: "link",
+      variant: isEmail ? "email" : "url",
+      uuid: null,
+      itemType: null,
+      url: isEmail ? `mailto:${cleanWord}` : cleanWord,
+      title: null,
+      children: [{ type: "text", value: cleanWord, marks }],
+    });
+    text = word.slice(wordIndex + cleanWord.length);
   }
 
-  return returnSplitString.join(" ");
+  if (text !== "") {
+    nodes.push({ type: "text", value: text, marks });
+  }
+
+  return nodes;
+}
+
+/**
+ * Parses email addresses and URLs in a string into HTML links
+ *
+ * @param string - Input string to parse
+ * @returns String with emails and URLs converted to HTML links
+ *
+ * @example
+ * ```ts
+ * const parsed = parseEmailAndUrl("Contact us at info@example.com or visit www.example.com");
+ * // Returns: "Contact us at <ExternalLink href="mailto:info@example.com">info@example.com</ExternalLink>
+ * //          or visit <ExternalLink href="www.example.com">www.example.com</ExternalLink>"
+ * ```
+ */
+export function parseEmailAndUrl(string: string): string {
+  return renderMdx(parseEmailAndUrlNodes(string));
 }
 
 /**
- * Applies text rendering options (bold, italic, underline) to a string
+ * Parses a space-separated string of render options into formatting marks
  *
- * @param contentString - The string content to render
  * @param renderString - Space-separated string of render options
- * @returns String with markdown formatting applied
+ * @returns Formatting marks, in the order they are applied
  * @internal
  */
-function parseRenderOptions(
-  contentString: string,
-  renderString: string,
-): string {
-  let returnString = contentString;
-
-  const result = renderOptionsSchema.safeParse(renderString);
-  if (!result.success) {
-    console.warn(`Invalid render options string provided: “${renderString}”`);
-
-    return contentString;
-  }
-
-  for (const option of result.data) {
-    switch (option) {
-      case "bold": {
-        returnString = `**${returnString}**`;
-        break;
-      }
-      case "italic": {
-        returnString = `*${returnString}*`;
-        break;
-      }
-      case "underline": {
-        returnString = `_${returnString}_`;
-        break;
-      }
-    }
-  }
-
-  return returnString.replaceAll("&#39;", "'");
+function parseRenderMarks(renderString: string): Array<RichTextMark> {
+  // Options unknown to the library are kept as generic marks instead of being dropped
+  return renderString.split(" ").filter((option) => option !== "");
 }
 
 /**
- * Applies whitespace options to a string (newline, trailing, leading)
+ * Wraps rich text nodes in the whitespace described by whitespace options (newline, trailing, leading)
  *
- * @param contentString - The string content to modify
+ * @param nodes - Rich text nodes to wrap
  * @param whitespace - Space-separated string of whitespace options
- * @returns String with whitespace modifications applied
+ * @returns Rich text nodes with line breaks and spaces added
  * @internal
  */
-function parseWhitespace(contentString: string, whitespace: string): string {
-  let returnString = contentString;
-
+function parseWhitespaceNodes(
+  nodes: Array<RichTextNode>,
+  whitespace: string,
+): Array<RichTextNode> {
   const result = whitespaceSchema.safeParse(whitespace);
   if (!result.success) {
     console.warn(`Invalid whitespace string provided: “${whitespace}”`);
 
-    return contentString;
+    return nodes;
   }
 
+  const returnNodes = [...nodes];
   for (const option of result.data) {
     switch (option) {
       case "newline": {
-        // newline in markdown
-        returnString = `${returnString}\n<br />`;
+        returnNodes.push({ type: "break", standalone: false });
         break;
       }
       case "trailing": {
-        returnString = `${returnString} `;
+        returnNodes.push({ type: "text", value: " ", marks: [] });
         break;
       }
       case "leading": {
-        returnString = ` ${returnString}`;
+        returnNodes.unshift({ type: "text", value: " ", marks: [] });
         break;
       }
     }
   }
 
-  return returnString.replaceAll("&#39;", "'");
+  return returnNodes;
 }
 
 /**
@@ -269,20 +285,19 @@ export function parseStringItem(item: OchreStringItem): string {
         Array.isArray(item.string) ? item.string : [item.string];
 
       for (const stringItem of stringItems) {
-        const renderedText =
-          stringItem.rend != null ?
-            parseRenderOptions(
-              parseFakeString(stringItem.content),
-              stringItem.rend,
-            )
-          : parseFakeString(stringItem.content);
-
-        const whitespacedText =
-          stringItem.whitespace != null ?
-            parseWhitespace(renderedText, stringItem.whitespace)
-          : renderedText;
-
-        returnString += whitespacedText;
+        let nodes: Array<RichTextNode> = [
+          {
+            type: "text",
+            value: parseFakeString(stringItem.content),
+            marks:
+              stringItem.rend != null ? parseRenderMarks(stringItem.rend) : [],
+          },
+        ];
+        if (stringItem.whitespace != null) {
+          nodes = parseWhitespaceNodes(nodes, stringItem.whitespace);
+        }
+
+        returnString += renderMdx(nodes);
       }
       break;
     }
@@ -296,192 +311,305 @@ export function parseStringItem(item: OchreStringItem): string {
 }
 
 /**
- * Parses rich text content into a formatted string with links and annotations
+ * Parses the links of an annotated rich text item into a link, inline image or footnote reference node
+ *
+ * @param item - Annotated rich text item to parse
+ * @param footnotes - Optional array to collect footnotes during parsing
+ * @param options - Parse options, including the base URL used for links and the language of linked labels
+ * @returns Rich text nodes of the first supported link, or null if no link is supported
+ * @internal
+ */
+function parseAnnotationNodes(
+  item: OchreStringRichTextItemAnnotation,
+  footnotes: Array<Footnote> | undefined,
+  options: Pick<ParseOptions, "baseUrl" | "language">,
+): Array<RichTextNode> | null {
+  const itemString = parseFakeString(item.string);
+  const children: Array<RichTextText> =
+    itemString !== "" ? [{ type: "text", value: itemString, marks: [] }] : [];
+
+  const itemLinks = Array.isArray(item.links) ? item.links : [item.links];
+  for (const link of itemLinks) {
+    if ("resource" in link) {
+      const linkResource =
+        Array.isArray(link.resource) ? link.resource[0]! : link.resource;
+
+      const linkContent =
+        linkResource.content != null ?
+          parseFakeString(linkResource.content)
+        : null;
+      const url = getItemUrl(linkResource.uuid, options.baseUrl);
+
+      switch (linkResource.type) {
+        case "image": {
+          if (linkResource.rend === "inline") {
+            return [
+              {
+                type: "image",
+                uuid: linkResource.uuid,
+                url: getItemUrl(linkResource.uuid, options.baseUrl, "load"),
+                alt: linkContent,
+                width: linkResource.width ?? null,
+                height: linkResource.height ?? null,
+              },
+            ];
+          }
+
+          return [
+            {
+              type: "link",
+              variant: "resource",
+              uuid: linkResource.uuid,
+              itemType: "image",
+              url: linkResource.publicationDateTime != null ? url : null,
+              title: linkContent,
+              children,
+            },
+          ];
+        }
+        case "internalDocument": {
+          const isFootnote = linkContent
+            ?.toLocaleLowerCase("en-US")
+            .includes("footnote");
+
+          if (isFootnote) {
+            if (footnotes) {
+              footnotes.push({
+                uuid: linkResource.uuid,
+                number: footnotes.length + 1,
+                label: itemString,
+                content: "",
+              });
+            }
+
+            return [
+              {
+                type: "footnoteReference",
+                identifier: linkResource.uuid,
+                label: itemString || null,
+                title: linkContent,
+              },
+            ];
+          }
+
+          return [
+            {
+              type: "link",
+              variant: "resource",
+              uuid: linkResource.uuid,
+              itemType: "internalDocument",
+              url,
+              title: linkContent,
+              children,
+            },
+          ];
+        }
+        case "externalDocument": {
+          return [
+            {
+              type: "link",
+              variant: "resource",
+              uuid: linkResource.uuid,
+              itemType: "externalDocument",
+              url: linkResource.publicationDateTime != null ? url : null,
+              title: linkContent,
+              children,
+            },
+          ];
+        }
+        default: {
+          return [];
+        }
+      }
+    } else if ("concept" in link || "set" in link) {
+      const variant = "concept" in link ? "concept" : "set";
+      const linkItems = "concept" in link ? link.concept : link.set;
+      const linkItem = Array.isArray(linkItems) ? linkItems[0]! : linkItems;
+
+      return [
+        {
+          type: "link",
+          variant,
+          uuid: linkItem.uuid,
+          itemType: null,
+          url:
+            linkItem.publicationDateTime != null ?
+              getItemUrl(linkItem.uuid, options.baseUrl)
+            : null,
+          title: null,
+          children,
+        },
+      ];
+    } else if ("person" in link) {
+      const linkPerson =
+        Array.isArray(link.person) ? link.person[0]! : link.person;
+
+      return [
+        {
+          type: "link",
+          variant: "person",
+          uuid: linkPerson.uuid,
+          itemType: linkPerson.type ?? null,
+          url:
+            linkPerson.publicationDateTime != null ?
+              getItemUrl(linkPerson.uuid, options.baseUrl)
+            : null,
+          title:
+            linkPerson.identification ?
+              parseStringContent(
+                linkPerson.identification.label,
+                options.language,
+              )
+            : null,
+          children,
+        },
+      ];
+    } else if ("bibliography" in link) {
+      const linkBibliography =
+        Array.isArray(link.bibliography) ?
+          link.bibliography[0]!
+        : link.bibliography;
+
+      return [
+        {
+          type: "link",
+          variant: "bibliography",
+          uuid: linkBibliography.uuid,
+          itemType: linkBibliography.type ?? null,
+          url:
+            linkBibliography.publicationDateTime != null ?
+              getItemUrl(linkBibliography.uuid, options.baseUrl)
+            : null,
+          title: null,
+          children,
+        },
+      ];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parses rich text content into a list of rich text nodes
  *
  * @param item - Rich text item to parse
  * @param footnotes - Optional array to collect footnotes during parsing
- * @returns Formatted string with HTML/markdown elements
+ * @param options - Parse options, including the base URL used for links and the language of linked labels
+ * @returns Text, line break, link, inline image and footnote reference nodes
  */
-export function parseStringDocumentItem(
+export function parseRichTextItem(
   item: OchreStringRichTextItem,
   footnotes?: Array<Footnote>,
-): string {
+  options: Pick<ParseOptions, "baseUrl" | "language"> = DEFAULT_PARSE_OPTIONS,
+): Array<RichTextNode> {
   if (
     typeof item === "string" ||
     typeof item === "number" ||
     typeof item === "boolean"
   ) {
-    return parseEmailAndUrl(parseFakeString(item));
+    return parseEmailAndUrlNodes(parseFakeString(item));
   }
 
   if ("whitespace" in item && !("content" in item) && !("string" in item)) {
-    if (item.whitespace === "newline") {
-      // newline in markdown
-      return "  \n";
-    } else {
-      return "";
-    }
+    return item.whitespace === "newline" ?
+        [{ type: "break", standalone: true }]
+      : [];
   }
 
   if ("links" in item) {
-    const itemString = parseFakeString(item.string)
-      .replaceAll("<", String.raw`\<`)
-      .replaceAll("{", String.raw`\{`);
-
-    const itemLinks = Array.isArray(item.links) ? item.links : [item.links];
-    for (const link of itemLinks) {
-      if ("resource" in link) {
-        const linkResource =
-          Array.isArray(link.resource) ? link.resource[0]! : link.resource;
-
-        let linkContent: string | null = null;
-        if (linkResource.content != null) {
-          linkContent = parseFakeString(linkResource.content)
-            .replaceAll("<", String.raw`\<`)
-            .replaceAll("{", String.raw`\{`);
-        }
-
-        switch (linkResource.type) {
-          case "image": {
-            if (linkResource.rend === "inline") {
-              return `<InlineImage uuid="${linkResource.uuid}" ${
-                linkContent !== null ? `content="${linkContent}"` : ""
-              } height={${linkResource.height?.toString() ?? "null"}} width={${linkResource.width?.toString() ?? "null"}} />`;
-            } else if (linkResource.publicationDateTime != null) {
-              return `<ExternalLink href="https:\\/\\/ochre.lib.uchicago.edu/ochre?uuid=${linkResource.uuid}" type="image"${
-                linkContent !== null ? ` content="${linkContent}"` : ""
-              }>${itemString}</ExternalLink>`;
-            } else {
-              return `<TooltipSpan type="image" ${
-                linkContent !== null ? `content="${linkContent}"` : ""
-              }>${itemString}</TooltipSpan>`;
-            }
-          }
-          case "internalDocument": {
-            const isFootnote = linkContent
-              ?.toLocaleLowerCase("en-US")
-              .includes("footnote");
-
-            if (isFootnote) {
-              if (footnotes) {
-                footnotes.push({
-                  uuid: linkResource.uuid,
-                  label: itemString,
-                  content: "",
-                });
-              }
-
-              return ` <Footnote uuid="${linkResource.uuid}"${
-                itemString ? ` label="${itemString}"` : ""
-              }${linkContent !== null ? ` content="${linkContent}"` : ""} />`;
-            } else {
-              return `<ExternalLink href="https:\\/\\/ochre.lib.uchicago.edu/ochre?uuid=${linkResource.uuid}" type="internalDocument" ${
-                linkContent !== null ? `content="${linkContent}"` : ""
-              }>${itemString}</ExternalLink>`;
-            }
-          }
-          case "externalDocument": {
-            if (linkResource.publicationDateTime != null) {
-              return `<ExternalLink href="https:\\/\\/ochre.lib.uchicago.edu/ochre?uuid=${linkResource.uuid}" type="externalDocument" ${
-                linkContent !== null ? `content="${linkContent}"` : ""
-              }>${itemString}</ExternalLink>`;
-            } else {
-              return `<TooltipSpan type="externalDocument" ${
-                linkContent !== null ? `content="${linkContent}"` : ""
-              }>${itemString}</TooltipSpan>`;
-            }
-          }
-          default: {
-            return "";
-          }
-        }
-      } else if ("concept" in link) {
-        const linkConcept =
-          Array.isArray(link.concept) ? link.concept[0]! : link.concept;
-
-        if (linkConcept.publicationDateTime != null) {
-          return `<ExternalLink href="https:\\/\\/ochre.lib.uchicago.edu/ochre?uuid=${linkConcept.uuid}" type="concept">${itemString}</ExternalLink>`;
-        } else {
-          return `<TooltipSpan type="concept">${itemString}</TooltipSpan>`;
-        }
-      } else if ("set" in link) {
-        const linkSet = Array.isArray(link.set) ? link.set[0]! : link.set;
-
-        if (linkSet.publicationDateTime != null) {
-          return `<ExternalLink href="https:\\/\\/ochre.lib.uchicago.edu/ochre?uuid=${linkSet.uuid}" type="set">${itemString}</ExternalLink>`;
-        } else {
-          return `<TooltipSpan type="set">${itemString}</TooltipSpan>`;
-        }
-      } else if ("person" in link) {
-        const linkPerson =
-          Array.isArray(link.person) ? link.person[0]! : link.person;
-
-        const linkContent =
-          linkPerson.identification ?
-            parseStringContent(linkPerson.identification.label)
-          : null;
-
-        if (linkPerson.publicationDateTime != null) {
-          return `<ExternalLink href="https:\\/\\/ochre.lib.uchicago.edu/ochre?uuid=${linkPerson.uuid}" type="${linkPerson.type ?? "person"}" ${
-            linkContent !== null ? `content="${linkContent}"` : ""
-          }>${itemString}</ExternalLink>`;
-        } else {
-          return `<TooltipSpan type="${linkPerson.type ?? "person"}" ${
-            linkContent !== null ? `content="${linkContent}"` : ""
-          }>${itemString}</TooltipSpan>`;
-        }
-      } else if ("bibliography" in link) {
-        const linkBibliography =
-          Array.isArray(link.bibliography) ?
-            link.bibliography[0]!
-          : link.bibliography;
-
-        if (linkBibliography.publicationDateTime != null) {
-          return `<ExternalLink href="https:\\/\\/ochre.lib.uchicago.edu/ochre?uuid=${linkBibliography.uuid}" type="${linkBibliography.type ?? "bibliography"}">${itemString}</ExternalLink>`;
-        } else {
-          return `<TooltipSpan type="bibliography">${itemString}</TooltipSpan>`;
-        }
-      }
+    const annotationNodes = parseAnnotationNodes(item, footnotes, options);
+    if (annotationNodes !== null) {
+      return annotationNodes;
     }
   }
 
-  let returnString = "";
+  let returnNodes: Array<RichTextNode>;
 
   if ("string" in item) {
     const stringItems =
       Array.isArray(item.string) ? item.string : [item.string];
 
-    for (const stringItem of stringItems) {
-      returnString += parseStringDocumentItem(stringItem, footnotes);
-    }
+    returnNodes = stringItems.flatMap((stringItem) =>
+      parseRichTextItem(stringItem, footnotes, options),
+    );
+  } else {
+    const content = parseFakeString(item.content);
+    const marks = item.rend != null ? parseRenderMarks(item.rend) : [];
 
-    if ("whitespace" in item && item.whitespace != null) {
-      returnString = parseWhitespace(
-        parseEmailAndUrl(returnString),
-        item.whitespace,
-      );
+    // Only formatted content is scanned for email addresses and URLs
+    if (item.rend != null || item.whitespace != null) {
+      returnNodes = parseEmailAndUrlNodes(content, marks);
+    } else {
+      returnNodes =
+        content !== "" ? [{ type: "text", value: content, marks }] : [];
     }
+  }
 
-    return returnString.replaceAll("&#39;", "'");
-  } else {
-    returnString = parseFakeString(item.content);
+  if ("whitespace" in item && item.whitespace != null) {
+    returnNodes = parseWhitespaceNodes(returnNodes, item.whitespace);
+  }
 
-    if (item.rend != null) {
-      returnString = parseRenderOptions(
-        parseEmailAndUrl(returnString),
-        item.rend,
-      );
-    }
+  return returnNodes;
+}
 
-    if (item.whitespace != null) {
-      returnString = parseWhitespace(
-        parseEmailAndUrl(returnString),
-        item.whitespace,
-      );
+/**
+ * Builds the root of a rich text tree, merging adjacent text runs and trimming `<br />` line breaks at both ends
+ *
+ * @param nodes - Rich text nodes of the tree
+ * @returns Rich text root
+ * @internal
+ */
+export function createRichTextRoot(nodes: Array<RichTextNode>): RichTextRoot {
+  const children: Array<RichTextNode> = [];
+
+  for (const node of nodes) {
+    const previousNode = children.at(-1);
+    if (
+      node.type === "text" &&
+      previousNode?.type === "text" &&
+      previousNode.marks.join(" ") === node.marks.join(" ")
+    ) {
+      children[children.length - 1] = {
+        ...previousNode,
+        value: previousNode.value + node.value,
+      };
+      continue;
     }
+
+    children.push(node);
   }
 
-  return returnString.replaceAll("&#39;", "'");
+  const isTrimmedBreak = (node: RichTextNode | undefined) =>
+    node?.type === "break" && !node.standalone;
+
+  while (isTrimmedBreak(children[0])) {
+    children.shift();
+  }
+  while (isTrimmedBreak(children.at(-1))) {
+    children.pop();
+  }
+
+  return { type: "root", children };
+}
+
+/**
+ * Parses rich text content into a formatted string with links and annotations
+ *
+ * @param item - Rich text item to parse
+ * @param footnotes - Optional array to collect footnotes during parsing
+ * @param options - Parse options, including the base URL used for links, the language of linked labels and the MDX rendering options
+ * @returns Formatted string with HTML/markdown elements
+ */
+export function parseStringDocumentItem(
+  item: OchreStringRichTextItem,
+  footnotes?: Array<Footnote>,
+  options: Pick<
+    ParseOptions,
+    "baseUrl" | "language" | "mdx"
+  > = DEFAULT_PARSE_OPTIONS,
+): string {
+  return renderMdx(parseRichTextItem(item, footnotes, options), options.mdx);
 }
 
 /**
@@ -513,12 +641,12 @@ export function trimEndLineBreaks(string: string): string {
  * Parses raw string content into a formatted string
  *
  * @param content - Raw string content to parse
- * @param language - Optional language code for content selection (defaults to "eng")
- * @returns Parsed and formatted string
+ * @param language - Optional language code or chain of language codes for content selection (defaults to "eng")
+ * @returns Parsed and formatted string, falling back to the first available translation
  */
 export function parseStringContent(
   content: OchreStringContent,
-  language = "eng",
+  language: LanguagePreference = "eng",
 ): string {
   switch (typeof content.content) {
     case "string":
@@ -528,7 +656,7 @@ export function parseStringContent(
     }
     case "object": {
       if (Array.isArray(content.content)) {
-        const stringItem = getStringItemByLanguage(content.content, language);
+        const stringItem = getItemByLanguage(content.content, language);
 
         if (stringItem) {
           return parseStringItem(stringItem);
@@ -536,7 +664,7 @@ export function parseStringContent(
           const returnStringItem = content.content[0];
           if (!returnStringItem) {
             throw new Error(
-              `No string item found for language “${language}” in the following content:\n${JSON.stringify(
+              `No string item found for language “${getLanguageChain(language).join(", ")}” in the following content:\n${JSON.stringify(
                 content.content,
               )}.`,
             );
@@ -553,3 +681,63 @@ export function parseStringContent(
     }
   }
 }
+
+/**
+ * Parses raw string content into a map of its translations, keyed by language code
+ *
+ * @param content - Raw string content to parse
+ * @param language - Language code used for content without language metadata, or chain of language codes whose first code is used (defaults to "eng")
+ * @returns Object mapping 3 character language codes to the parsed strings
+ *
+ * @example
+ * ```ts
+ * const names = parseStringContentByLanguage(identification.label);
+ * // Returns: { eng: "Herodotus", ita: "Erodoto" }
+ * ```
+ */
+export function parseStringContentByLanguage(
+  content: OchreStringContent,
+  language: LanguagePreference = "eng",
+): LocalizedString {
+  if (typeof content.content !== "object") {
+    return { [getPrimaryLanguage(language)]: parseFakeString(content.content) };
+  }
+
+  const stringItems =
+    Array.isArray(content.content) ? content.content : [content.content];
+
+  const returnStrings: Record<string, string> = {};
+  for (const stringItem of stringItems) {
+    returnStrings[stringItem.lang ?? getPrimaryLanguage(language)] =
+      parseStringItem(stringItem);
+  }
+
+  return returnStrings;
+}
+
+/**
+ * Resolves a localized string to a single string, following a chain of preferred languages
+ *
+ * @param localized - Localized string, keyed by ISO 639-3 language code
+ * @param languages - Preferred language code, or language codes in order of preference
+ * @returns The string in the first preferred language available, otherwise in any available language, or null if empty
+ *
+ * @example
+ * ```ts
+ * resolveLocalizedString({ eng: "Vase", ita: "Vaso" }, ["fra", "ita", "eng"]);
+ * // Returns: "Vaso"
+ * ```
+ */
+export function resolveLocalizedString(
+  localized: LocalizedString,
+  languages: LanguagePreference,
+): string | null {
+  for (const language of getLanguageChain(languages)) {
+    const string = localized[language];
+    if (string !== undefined) {
+      return string;
+    }
+  }
+
+  return Object.values(localized)[0] ?? null;
+}
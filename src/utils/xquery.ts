@@ -0,0 +1,186 @@
+/**
+ * Item categories that can be selected with an XQuery
+ */
+export type XQueryCategory =
+  | "tree"
+  | "set"
+  | "resource"
+  | "spatialUnit"
+  | "concept"
+  | "bibliography"
+  | "person"
+  | "period";
+
+/**
+ * Filters used to select OCHRE items with an XQuery. All filters are combined with AND.
+ */
+export type XQuery = {
+  /** Category of the items, e.g. "resource" (defaults to any category) */
+  category?: XQueryCategory;
+  /** Item type, e.g. "lesson" for website trees */
+  type?: string;
+  /** Item abbreviation */
+  abbreviation?: string;
+  /** Abbreviation of the project the items belong to */
+  project?: string;
+  /** Property the items must have, optionally with a given value */
+  property?: { label: string; value?: string };
+  /** UUIDs of the items */
+  uuids?: Array<string>;
+  /** Number of matching items to skip (defaults to 0) */
+  offset?: number;
+  /** Maximum number of items to return (defaults to all) */
+  limit?: number;
+  /** What to return for each item: the whole item, or only its UUID and publication date (defaults to "item") */
+  return?: "item" | "publicationDateTime";
+};
+
+/**
+ * Escapes a value for use as an XQuery string literal
+ *
+ * @param value - Value to escape
+ * @returns Quoted XQuery string literal
+ *
+ * @example
+ * ```ts
+ * const literal = escapeXQueryString("O'Brien & Sons");
+ * // Returns: 'O''Brien &amp; Sons'
+ * ```
+ */
+export function escapeXQueryString(value: string): string {
+  return `'${value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll("'", "''")}'`;
+}
+
+/**
+ * Restricts an XQuery sequence to the given offset and limit
+ *
+ * @param sequence - XQuery sequence expression
+ * @param offset - Number of items to skip
+ * @param limit - Maximum number of items to keep
+ * @returns Sequence expression, wrapped in `subsequence()` if needed
+ * @internal
+ */
+function getSubsequence(
+  sequence: string,
+  offset: number | undefined,
+  limit: number | undefined,
+): string {
+  if (offset == null && limit == null) {
+    return sequence;
+  }
+
+  const start = Math.max(Math.floor(offset ?? 0), 0) + 1;
+
+  return limit != null ?
+      `subsequence(${sequence}, ${start}, ${Math.max(Math.floor(limit), 0)})`
+    : `subsequence(${sequence}, ${start})`;
+}
+
+/**
+ * Builds an XQuery selecting OCHRE items from the given filters, escaping all values
+ *
+ * @param query - Filters used to select the items
+ * @returns XQuery string, not yet URL encoded
+ *
+ * @example
+ * ```ts
+ * const xquery = buildXQuery({
+ *   category: "tree",
+ *   type: "lesson",
+ *   abbreviation: "guerrilla-television",
+ * });
+ * // Returns: for $q in input()/ochre[tree[@type='lesson'][identification/abbreviation='guerrilla-television']] return $q
+ * ```
+ */
+export function buildXQuery(query: XQuery): string {
+  const itemPredicates: Array<string> = [];
+  if (query.type != null) {
+    itemPredicates.push(`[@type=${escapeXQueryString(query.type)}]`);
+  }
+  if (query.abbreviation != null) {
+    itemPredicates.push(
+      `[identification/abbreviation=${escapeXQueryString(query.abbreviation)}]`,
+    );
+  }
+  if (query.property != null) {
+    const valuePredicate =
+      query.property.value != null ?
+        `[value=${escapeXQueryString(query.property.value)}]`
+      : "";
+
+    itemPredicates.push(
+      `[properties/property[label=${escapeXQueryString(query.property.label)}]${valuePredicate}]`,
+    );
+  }
+
+  const predicates: Array<string> = [];
+  if (query.uuids != null) {
+    predicates.push(
+      `[@uuid=(${query.uuids.map((uuid) => escapeXQueryString(uuid)).join(",")})]`,
+    );
+  }
+  if (query.project != null) {
+    predicates.push(`[@belongsTo=${escapeXQueryString(query.project)}]`);
+  }
+  if (query.category != null || itemPredicates.length > 0) {
+    predicates.push(`[${query.category ?? "*"}${itemPredicates.join("")}]`);
+  }
+
+  const sequence = getSubsequence(
+    `input()/ochre${predicates.join("")}`,
+    query.offset,
+    query.limit,
+  );
+
+  const returnExpression =
+    query.return === "publicationDateTime" ?
+      `<item uuid="{$q/@uuid}" publicationDateTime="{$q/@publicationDateTime}"/>`
+    : "$q";
+
+  return `for $q in ${sequence} return ${returnExpression}`;
+}
+
+/**
+ * Builds an XQuery selecting a page of the top-level items of a tree or set
+ *
+ * @param uuid - The UUID of the tree or set
+ * @param category - Category of the item holding the items
+ * @param page - Number of items to skip and maximum number of items to return
+ * @param page.offset - Number of items to skip
+ * @param page.limit - Maximum number of items to return
+ * @returns XQuery string, not yet URL encoded
+ *
+ * @example
+ * ```ts
+ * const xquery = buildItemsXQuery(uuid, "tree", { offset: 100, limit: 100 });
+ * ```
+ */
+export function buildItemsXQuery(
+  uuid: string,
+  category: "tree" | "set",
+  page: { offset?: number; limit?: number } = {},
+): string {
+  const sequence = getSubsequence(
+    `input()/ochre[@uuid=${escapeXQueryString(uuid)}]/${category}/items/*`,
+    page.offset,
+    page.limit,
+  );
+
+  // Wrapping every item keeps document order across categories in the JSON response
+  return `for $q in ${sequence} return <item>{$q}</item>`;
+}
+
+/**
+ * Builds the OCHRE API URL running an XQuery
+ *
+ * @param xquery - XQuery to run, e.g. built with `buildXQuery`
+ * @param baseUrl - Base URL of the OCHRE API endpoint
+ * @returns URL with the encoded XQuery
+ * @internal
+ */
+export function getXQueryUrl(xquery: string, baseUrl: string): string {
+  return `${baseUrl}?xquery=${encodeURIComponent(xquery)}&format=json&lang="*"`;
+}
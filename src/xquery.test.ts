@@ -0,0 +1,41 @@
+import { expect, it } from "vitest";
+import { createOchreClient } from "./utils/client.js";
+import { buildXQuery, escapeXQueryString } from "./utils/xquery.js";
+
+it("xquery escapes string literals", () => {
+  expect(escapeXQueryString("O'Brien & <Sons>")).toBe(
+    "'O''Brien &amp; &lt;Sons>'",
+  );
+});
+
+it("xquery combines filters", () => {
+  expect(
+    buildXQuery({
+      category: "resource",
+      type: "document",
+      project: "uchicago-node",
+      property: { label: "Material", value: "Stone" },
+      offset: 20,
+      limit: 10,
+    }),
+  ).toBe(
+    "for $q in subsequence(input()/ochre[@belongsTo='uchicago-node'][resource[@type='document'][properties/property[label='Material'][value='Stone']]], 21, 10) return $q",
+  );
+});
+
+it("website abbreviations cannot inject xquery", async () => {
+  const requests: Array<string> = [];
+  const client = createOchreClient({
+    fetch: (input) => {
+      requests.push(input.toString());
+      return Promise.resolve(Response.json({ result: [] }));
+    },
+  });
+
+  const [error] = await client.fetchWebsite("x'] return doc('secret')['");
+
+  expect(error?.kind).toBe("missing-key");
+  expect(new URL(requests[0]!).searchParams.get("xquery")).toBe(
+    "for $q in input()/ochre[tree[@type='lesson'][identification/abbreviation='x''] return doc(''secret'')[''']] return $q",
+  );
+});